@@ -1,6 +1,8 @@
-import { MigrationScriptExecutor, IMigrationExecutorDependencies, IExecutorOptions } from '@migration-script-runner/core';
+import { MigrationScriptExecutor, IMigrationExecutorDependencies, ConsoleLogger, ILogger } from '@migration-script-runner/core';
+import { readFile, writeFile } from 'node:fs/promises';
 import { FirebaseHandler } from './service/FirebaseHandler';
-import { IFirebaseDB } from './interface';
+import { ConfigValidationError } from './error';
+import { IBackupDiff, IBackupPrunePlan, IBackupVerification, IDataSummary, IFirebaseDB, IFirebaseExecutorOptions, IImportOptions, IRestoreOptions, IShardedMigrationResult } from './interface';
 import { FirebaseConfig } from './model/FirebaseConfig';
 
 /**
@@ -43,8 +45,15 @@ export class FirebaseRunner extends MigrationScriptExecutor<IFirebaseDB, Firebas
      * - Cleaner, more intuitive API
      * - Properly typed configuration with Firebase-specific properties
      *
+     * The selected profile (`config.profile` or `MSR_PROFILE`) is applied first, see
+     * {@link FirebaseConfig.applyProfile}. The configuration is then checked with
+     * {@link FirebaseConfig.validate}; warnings are logged and errors are thrown before
+     * any connection is made.
+     *
      * @param options - Firebase runner options including config and optional services
      * @returns Promise resolving to initialized FirebaseRunner instance
+     * @throws RangeError if the selected profile does not exist
+     * @throws ConfigValidationError if the configuration has errors
      *
      * @example
      * ```typescript
@@ -79,16 +88,78 @@ export class FirebaseRunner extends MigrationScriptExecutor<IFirebaseDB, Firebas
      *     metricsCollectors: [new ConsoleMetricsCollector()]
      * });
      * ```
+     *
+     * @example
+     * ```typescript
+     * // Sharing the host application's firebase-admin app
+     * const runner = await FirebaseRunner.getInstance({
+     *     config: appConfig,
+     *     app: admin.app()
+     * });
+     * ```
      */
-    static async getInstance(options: IExecutorOptions<IFirebaseDB, FirebaseConfig>): Promise<FirebaseRunner> {
+    static async getInstance(options: IFirebaseExecutorOptions): Promise<FirebaseRunner> {
+        const { database, app, ...executorOptions } = options;
+        const logger = options.logger ?? new ConsoleLogger();
+        FirebaseConfig.applyProfile(options.config);
+        FirebaseRunner.checkConfig(options.config, logger, !!(database || app));
         return MigrationScriptExecutor.createInstance(
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
             FirebaseRunner as any, // Required: createInstance expects public constructor, but we use private for factory pattern
-            options,
-            (config: FirebaseConfig) => FirebaseHandler.getInstance(config)
+            executorOptions,
+            (config: FirebaseConfig) => FirebaseHandler.getInstance(config, logger, { database, app })
         );
     }
 
+    /**
+     * Applies migrations to every shard listed in `config.databaseUrl`.
+     *
+     * Shards are migrated one after another, each with its own runner, connection,
+     * `schema_version` node and lock. Migration stops at the first failing shard; the
+     * remaining shards are reported as skipped so they stay on their current version.
+     *
+     * @param options - Runner options; `config.databaseUrl` lists the shards
+     * @param targetVersion - Optional version to migrate every shard to
+     * @returns Per-shard results and the combined outcome
+     * @throws TypeError if a shared `database` or `app` is given, since it targets a single instance
+     *
+     * @example
+     * ```typescript
+     * appConfig.databaseUrl = {
+     *     eu: 'https://project-eu.europe-west1.firebasedatabase.app',
+     *     us: 'https://project-us.firebaseio.com'
+     * };
+     * const summary = await FirebaseRunner.migrateShards({ config: appConfig });
+     * summary.shards.forEach(shard => console.log(shard.name, shard.success));
+     * ```
+     */
+    static async migrateShards(options: IFirebaseExecutorOptions, targetVersion?: number): Promise<IShardedMigrationResult> {
+        if (options.database || options.app) {
+            throw new TypeError('Shards cannot be migrated with a shared database or app');
+        }
+        const config: FirebaseConfig = FirebaseConfig.applyProfile(options.config);
+        const summary: IShardedMigrationResult = {success: true, shards: [], skipped: []};
+
+        for (const shard of config.getShards()) {
+            if (!summary.success) {
+                summary.skipped.push(shard.name);
+                continue;
+            }
+            let runner: FirebaseRunner | undefined;
+            try {
+                runner = await FirebaseRunner.getInstance({...options, config: config.forShard(shard.name)});
+                const result = await runner.migrate(targetVersion);
+                summary.shards.push({...shard, success: result.success, result});
+            } catch (error) {
+                summary.shards.push({...shard, success: false, error: error instanceof Error ? error.message : String(error)});
+            } finally {
+                await runner?.close();
+            }
+            summary.success = summary.shards.every(result => result.success);
+        }
+        return summary;
+    }
+
     /**
      * Gets Firebase connection information.
      *
@@ -96,12 +167,41 @@ export class FirebaseRunner extends MigrationScriptExecutor<IFirebaseDB, Firebas
      */
     getConnectionInfo(): { databaseUrl?: string; shift?: string; tableName: string } {
         return {
-            databaseUrl: this.handler.cfg.databaseUrl,
+            databaseUrl: this.handler.cfg.getDatabaseUrl(),
             shift: this.handler.cfg.shift,
             tableName: this.handler.cfg.tableName,
         };
     }
 
+    /**
+     * Gets the Realtime Database emulator the runner is connected to.
+     *
+     * @returns Emulator `host:port`, or undefined when connected to a real database
+     */
+    getEmulatorHost(): string | undefined {
+        return this.handler.cfg.getEmulatorHost();
+    }
+
+    /**
+     * Closes the Firebase connection and deletes the Firebase app created for this runner.
+     *
+     * Long-running services should call this when done with a runner, since every
+     * {@link getInstance} call opens its own app and connection.
+     *
+     * @example
+     * ```typescript
+     * const runner = await FirebaseRunner.getInstance({ config: appConfig });
+     * try {
+     *   await runner.migrate();
+     * } finally {
+     *   await runner.close();
+     * }
+     * ```
+     */
+    async close(): Promise<void> {
+        await this.handler.dispose();
+    }
+
     /**
      * Gets Firebase database reference for the configured shift path.
      *
@@ -123,7 +223,7 @@ export class FirebaseRunner extends MigrationScriptExecutor<IFirebaseDB, Firebas
      * ```
      */
     async listNodes(): Promise<string[]> {
-        const root = this.handler.cfg.shift || '/';
+        const root = this.handler.cfg.getRoot();
         const snapshot = await this.handler.db.database.ref(root).once('value');
 
         if (!snapshot.exists()) {
@@ -166,4 +266,164 @@ export class FirebaseRunner extends MigrationScriptExecutor<IFirebaseDB, Firebas
 
         return backup;
     }
+
+    /**
+     * Exports a node to a JSON file in the Firebase console export format.
+     *
+     * @param path - Node path relative to the shift
+     * @param file - Output file path
+     * @returns Exported path, size and key count
+     *
+     * @example
+     * ```typescript
+     * const summary = await runner.exportData('users', './users.json');
+     * console.log(`Exported ${summary.keys} keys (${summary.bytes} bytes)`);
+     * ```
+     */
+    async exportData(path: string, file: string): Promise<IDataSummary> {
+        const target = this.handler.cfg.buildPath(path);
+        const snapshot = await this.handler.db.database.ref(target).once('value');
+        const data = snapshot.val();
+        const content = JSON.stringify(data);
+
+        await writeFile(file, content);
+        return { path: target, bytes: Buffer.byteLength(content), keys: countKeys(data) };
+    }
+
+    /**
+     * Imports a JSON file in the Firebase console export format into a node.
+     *
+     * In `merge` mode (default) the top-level keys of the file are written with `update()`
+     * and other children of the node are kept. In `replace` mode the node is overwritten.
+     *
+     * @param path - Node path relative to the shift
+     * @param file - JSON file to import
+     * @param options - Import mode
+     * @returns Imported path, size and key count
+     * @throws TypeError if the mode is unknown, or merge mode is used with a file that is not a JSON object
+     *
+     * @example
+     * ```typescript
+     * await runner.importData('users', './users.json', { mode: 'replace' });
+     * ```
+     */
+    async importData(path: string, file: string, options: IImportOptions = {}): Promise<IDataSummary> {
+        const mode = options.mode ?? 'merge';
+        if (mode !== 'merge' && mode !== 'replace') {
+            throw new TypeError(`Unknown import mode "${mode}", expected "merge" or "replace"`);
+        }
+
+        const content = await readFile(file, 'utf-8');
+        const data = JSON.parse(content);
+        const target = this.handler.cfg.buildPath(path);
+        const ref = this.handler.db.database.ref(target);
+
+        if (mode === 'replace') {
+            await ref.set(data);
+        } else {
+            if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+                throw new TypeError('Merge import requires a JSON object; use replace mode to import other values');
+            }
+            await ref.update(data);
+        }
+        return { path: target, bytes: Buffer.byteLength(content), keys: countKeys(data) };
+    }
+
+    /**
+     * Compares a backup with the live data without writing anything.
+     *
+     * @param backup - Backup id, path to a backup file or backup content
+     * @param options - Optional target shift to compare against
+     * @returns Paths a restore would add, remove and change, with counts
+     *
+     * @example
+     * ```typescript
+     * const diff = await runner.diffBackup('backup-20250115-103000-000');
+     * console.log(`Restore would change ${diff.counts.changed} paths`);
+     * ```
+     */
+    async diffBackup(backup: string, options: Pick<IRestoreOptions, 'targetShift'> = {}): Promise<IBackupDiff> {
+        return this.handler.backup.diff(backup, options);
+    }
+
+    /**
+     * Restores a backup into the configured shift, or into another shift.
+     *
+     * @param backup - Backup id, path to a backup file or backup content
+     * @param options - Optional target shift and force flag
+     *
+     * @example
+     * ```typescript
+     * await runner.restoreBackup('./backups/backup-20250115-103000-000.json');
+     *
+     * // Clone a production backup into staging, replacing its data
+     * await runner.restoreBackup(backupId, { targetShift: 'staging', force: true });
+     * ```
+     */
+    async restoreBackup(backup: string, options: IRestoreOptions = {}): Promise<void> {
+        await this.handler.backup.restore(backup, options);
+    }
+
+    /**
+     * Deletes persisted backups that the retention policy (`config.backup.keepLast`,
+     * `keepDays`, `keepPerVersion`) does not retain.
+     *
+     * @param options - With `dryRun`, only reports what would be deleted
+     * @returns Backups kept and pruned, newest first
+     *
+     * @example
+     * ```typescript
+     * const plan = await runner.pruneBackups({ dryRun: true });
+     * plan.prune.forEach(manifest => console.log('would delete', manifest.id));
+     *
+     * await runner.pruneBackups();
+     * ```
+     */
+    async pruneBackups(options: { dryRun?: boolean } = {}): Promise<IBackupPrunePlan> {
+        return options.dryRun ? this.handler.backup.planPrune() : this.handler.backup.pruneBackups();
+    }
+
+    /**
+     * Verifies a persisted backup: manifest checksum, readable content and legal keys,
+     * optionally reporting nodes that drifted from the live data since the backup.
+     *
+     * @param backup - Backup id or path to a backup/manifest file
+     * @param options - With `live`, compares node hashes with the live database
+     * @returns Verification result with errors and optional drift
+     *
+     * @example
+     * ```typescript
+     * const result = await runner.verifyBackup('backup-20250115-103000-000', { live: true });
+     * console.log(result.valid ? 'Backup OK' : result.errors);
+     * ```
+     */
+    async verifyBackup(backup: string, options: { live?: boolean } = {}): Promise<IBackupVerification> {
+        return this.handler.backup.verify(backup, options);
+    }
+
+    /**
+     * Validates the configuration before connecting: logs warnings and throws on errors.
+     * With a shared database or app the connection settings are not used, so only
+     * path and locking issues are checked.
+     */
+    private static checkConfig(config: FirebaseConfig, logger: ILogger, shared: boolean): void {
+        const issues = config.validate()
+            .filter(issue => !shared || issue.code === 'invalid-shift' || issue.code === 'lock-timeout-out-of-range');
+        issues.filter(issue => issue.severity === 'warning')
+            .forEach(issue => logger.warn(`Configuration warning (${issue.field}): ${issue.message}`));
+        const errors = issues.filter(issue => issue.severity === 'error');
+        if (errors.length) {
+            throw new ConfigValidationError(errors);
+        }
+    }
+}
+
+/**
+ * Counts all keys of a JSON value, nested keys included.
+ */
+function countKeys(value: unknown): number {
+    if (value === null || typeof value !== 'object') {
+        return 0;
+    }
+    return Object.values(value).reduce((count: number, child) => count + 1 + countKeys(child), 0);
 }
@@ -1,11 +1,187 @@
 #!/usr/bin/env node
 
-import { createCLI, BackupMode } from '@migration-script-runner/core';
+import { createCLI, BackupMode, Config, ConfigLoader } from '@migration-script-runner/core';
 import { FirebaseRunner } from './FirebaseRunner';
+import { FirebaseBackupConfig } from './model/FirebaseBackupConfig';
 import { FirebaseConfig } from './model/FirebaseConfig';
-import { IFirebaseDB } from './interface';
+import { IFirebaseDB, ImportMode, ProfileSource } from './interface';
+import { BackupRetention } from './service/BackupRetention';
+import { DBConnector } from './service/DBConnector';
 import { version } from '../package.json';
 
+/**
+ * Splits a comma-separated CLI value into a list of trimmed, non-empty items.
+ */
+const parseList = (value: string): string[] => value.split(',').map(item => item.trim()).filter(Boolean);
+
+/**
+ * Parses a CLI duration given in milliseconds.
+ *
+ * @throws TypeError if the value is not a non-negative integer
+ */
+export const parseMilliseconds = (value: unknown, flag: string): number => {
+    const ms = typeof value === 'string' && !value.trim() ? NaN : Number(value);
+    if (!Number.isInteger(ms) || ms < 0) {
+        throw new TypeError(`${flag} must be a non-negative number of milliseconds, got ${value}`);
+    }
+    return ms;
+};
+
+/**
+ * Parses a target migration version given on the command line, e.g. `202501010001`.
+ *
+ * @throws TypeError if the value is not a positive integer
+ */
+export const parseVersion = (value: string): number => {
+    const version = Number(value);
+    if (!/^\d+$/.test(value.trim()) || !Number.isSafeInteger(version) || version <= 0) {
+        throw new TypeError(`Invalid target version "${value}", expected a migration timestamp such as 202501010001`);
+    }
+    return version;
+};
+
+/**
+ * Settings each CLI flag replaces, so a profile setting overridden by a flag is not
+ * reported as coming from the profile. `locking` and `backup` flags only change single
+ * fields of settings merged with the profile and are not listed.
+ */
+const FLAG_SETTINGS: Record<string, string> = {
+    databaseUrl: 'databaseUrl',
+    shift: 'shift',
+    tableName: 'tableName',
+    credentials: 'applicationCredentials',
+    credentialsJson: 'credentialsJson',
+    credentialsMode: 'credentialsMode',
+    emulator: 'emulatorHost',
+    connectionTimeout: 'connectionTimeout',
+    authOverride: 'databaseAuthVariableOverride',
+    backupMode: 'backupMode',
+};
+
+/**
+ * Maps the Firebase CLI flags onto the merged configuration, after applying the selected profile.
+ *
+ * @throws InvalidPathError if `--shift` or `--table-name` is not a valid database path
+ * @throws TypeError if `--lock-timeout` or `--connection-timeout` is not a number of milliseconds
+ */
+export const applyFlags = (config: FirebaseConfig, flags: Record<string, unknown>): void => {
+    // Apply the profile first, so explicit flags below override its settings
+    if (flags.profile && typeof flags.profile === 'string') {
+        FirebaseConfig.applyProfile(config, flags.profile, 'cli');
+    } else {
+        FirebaseConfig.applyProfile(config);
+    }
+    if (flags.databaseUrl && typeof flags.databaseUrl === 'string') {
+        config.databaseUrl = flags.databaseUrl;
+    }
+    if (flags.shift && typeof flags.shift === 'string') {
+        FirebaseConfig.normalizeRoot(flags.shift);
+        config.shift = flags.shift;
+    }
+    if (flags.tableName && typeof flags.tableName === 'string') {
+        FirebaseConfig.normalizeRoot(flags.tableName);
+        config.tableName = flags.tableName;
+    }
+    if (flags.lockTimeout !== undefined) {
+        config.locking = { ...config.locking, timeout: parseMilliseconds(flags.lockTimeout, '--lock-timeout') };
+    }
+    if (flags.credentials && typeof flags.credentials === 'string') {
+        config.applicationCredentials = flags.credentials;
+    }
+    if (flags.credentialsJson && typeof flags.credentialsJson === 'string') {
+        config.credentialsJson = flags.credentialsJson;
+    }
+    if (flags.credentialsMode && typeof flags.credentialsMode === 'string') {
+        const mode = flags.credentialsMode.toLowerCase();
+        if (mode === 'file' || mode === 'adc' || mode === 'json') {
+            config.credentialsMode = mode;
+        }
+    }
+    if (flags.emulator && typeof flags.emulator === 'string') {
+        config.emulatorHost = flags.emulator;
+    }
+    if (flags.connectionTimeout !== undefined) {
+        config.connectionTimeout = parseMilliseconds(flags.connectionTimeout, '--connection-timeout');
+    }
+    if (flags.authOverride && typeof flags.authOverride === 'string') {
+        config.databaseAuthVariableOverride = DBConnector.parseAuthOverride(flags.authOverride);
+    }
+    if (flags.backupMode && typeof flags.backupMode === 'string') {
+        const mode = flags.backupMode.toLowerCase();
+        if (mode === 'full' || mode === 'create_only' || mode === 'restore_only' || mode === 'manual') {
+            config.backupMode = mode as BackupMode;
+        }
+    }
+    if (flags.backupNodes && typeof flags.backupNodes === 'string') {
+        config.backup.nodes = parseList(flags.backupNodes);
+    }
+    if (flags.backupExcludeNodes && typeof flags.backupExcludeNodes === 'string') {
+        config.backup.excludeNodes = parseList(flags.backupExcludeNodes);
+    }
+    if (flags.backupKeepLast !== undefined) {
+        config.backup.keepLast = Number(flags.backupKeepLast);
+    }
+    if (flags.backupKeepDays !== undefined) {
+        config.backup.keepDays = Number(flags.backupKeepDays);
+    }
+    if (flags.backupKeepPerVersion) {
+        config.backup.keepPerVersion = true;
+    }
+    if (config.resolvedProfile) {
+        const overridden = Object.keys(FLAG_SETTINGS).filter(flag => flags[flag] !== undefined).map(flag => FLAG_SETTINGS[flag]);
+        config.resolvedProfile.settings = config.resolvedProfile.settings.filter(setting => !overridden.includes(setting));
+    }
+};
+
+/**
+ * Closes the runner, so its Firebase connection does not keep the process alive, and exits.
+ */
+const exit = async (runner: FirebaseRunner | undefined, code: number): Promise<void> => {
+    try {
+        await runner?.close();
+    } finally {
+        process.exit(code);
+    }
+};
+
+/**
+ * Copies the configuration merged by MSR Core into a {@link FirebaseConfig}.
+ *
+ * Core's `backup` is a plain `BackupConfig`; it is merged into a {@link FirebaseBackupConfig},
+ * so Firebase backup defaults such as the `MSR_FIREBASE_BACKUP_KEY` encryption key are kept.
+ */
+export const toFirebaseConfig = (config: Config): FirebaseConfig => {
+    const firebaseConfig = Object.assign(new FirebaseConfig(), config);
+    firebaseConfig.backup = Object.assign(new FirebaseBackupConfig(), config.backup);
+    return firebaseConfig;
+};
+
+/**
+ * Loads the configuration from the config file (`--config-file`, else `msr.config.js`)
+ * and environment variables, the way MSR Core's commands load it.
+ */
+const loadConfig = (flags: Record<string, unknown>): Config => {
+    if (flags.configFile && typeof flags.configFile === 'string') {
+        // ConfigLoader reads a custom config file path from MSR_CONFIG_FILE
+        process.env.MSR_CONFIG_FILE = flags.configFile;
+    }
+    return ConfigLoader.load();
+};
+
+/**
+ * Resolves the configuration a command runs with, without connecting to Firebase:
+ * the loaded configuration, the selected profile and the Firebase flags.
+ *
+ * @param config - Configuration loaded from the config file and environment
+ * @param flags - Parsed CLI flags
+ * @throws RangeError if the selected profile does not exist, see {@link applyFlags} for invalid flags
+ */
+export const resolveConfig = (config: Config, flags: Record<string, unknown>): FirebaseConfig => {
+    const resolved = toFirebaseConfig(config);
+    applyFlags(resolved, flags);
+    return FirebaseConfig.applyProfile(resolved);
+};
+
 /**
  * Firebase Realtime Database CLI for Migration Script Runner.
  *
@@ -39,33 +215,37 @@ const program = createCLI<IFirebaseDB, FirebaseRunner, FirebaseConfig>({
     // Register Firebase-specific CLI options
     addCustomOptions: (program) => {
         program
+            .option('--profile <name>', 'Environment profile from the config file\'s profiles (default: MSR_PROFILE)')
             .option('--database-url <url>', 'Firebase Realtime Database URL')
+            .option('--shift <path>', 'Path prefix all data lives under, e.g. production (env: MSR_FIREBASE_SHIFT)')
+            .option('--table-name <name>', 'Node tracking applied migrations, relative to shift (default: schema_version)')
+            .option('--lock-timeout <ms>', 'Milliseconds until a migration lock expires (default: 600000)')
             .option('--credentials <path>', 'Path to service account key file')
-            .option('--backup-mode <mode>', 'Backup mode: full, create_only, restore_only, manual (default: full)');
+            .option('--credentials-json <json>', 'Service account key as JSON or base64-encoded JSON')
+            .option('--credentials-mode <mode>', 'Credentials mode: file, adc, json (default: detected, falling back to adc)')
+            .option('--emulator <host:port>', 'Connect to the Realtime Database emulator without credentials')
+            .option('--connection-timeout <ms>', 'Milliseconds to wait for the database connection (default: 10000)')
+            .option('--auth-override <json>', 'Run as a limited identity with security rules enforced, e.g. \'{"uid":"migrator"}\' or null')
+            .option('--backup-mode <mode>', 'Backup mode: full, create_only, restore_only, manual (default: full)')
+            .option('--backup-nodes <nodes>', 'Comma-separated list of nodes to back up, relative to shift (default: whole shift)')
+            .option('--backup-exclude-nodes <nodes>', 'Comma-separated list of nodes to skip when backing up, relative to shift')
+            .option('--backup-keep-last <count>', 'Retention: keep the N most recent persisted backups')
+            .option('--backup-keep-days <days>', 'Retention: keep persisted backups created within the last N days')
+            .option('--backup-keep-per-version', 'Retention: keep the most recent persisted backup of every migration version');
     },
 
     // Map custom CLI flags to config properties
-    extendFlags: (config, flags) => {
-        // config is now properly typed as FirebaseConfig thanks to TConfig generic
-        if (flags.databaseUrl && typeof flags.databaseUrl === 'string') {
-            config.databaseUrl = flags.databaseUrl;
-        }
-        if (flags.credentials && typeof flags.credentials === 'string') {
-            config.applicationCredentials = flags.credentials;
-        }
-        if (flags.backupMode && typeof flags.backupMode === 'string') {
-            const mode = flags.backupMode.toLowerCase();
-            if (mode === 'full' || mode === 'create_only' || mode === 'restore_only' || mode === 'manual') {
-                config.backupMode = mode as BackupMode;
-            }
-        }
-    },
+    extendFlags: applyFlags,
 
     // Factory function to create adapter with merged config
     createExecutor: async (config) => {
         // Initialize Firebase runner with merged configuration
-        const appConfig = new FirebaseConfig();
-        Object.assign(appConfig, config);
+        const appConfig = toFirebaseConfig(config);
+        if (appConfig.isSharded()) {
+            const names = appConfig.getShards().map(shard => shard.name).join(', ');
+            throw new TypeError(`databaseUrl lists several shards (${names}). Run "msr-firebase firebase:migrate-shards" `
+                + 'to migrate all of them, or set --database-url to a single shard');
+        }
 
         return FirebaseRunner.getInstance({ config: appConfig });
     },
@@ -76,20 +256,72 @@ const program = createCLI<IFirebaseDB, FirebaseRunner, FirebaseConfig>({
             .command('firebase:info')
             .description('Show Firebase connection information')
             .action(async () => {
+                let runner: FirebaseRunner | undefined;
+                let code = 0;
                 try {
-                    const runner = await createExecutor();
+                    runner = await createExecutor();
                     const info = runner.getConnectionInfo();
+                    const emulatorHost = runner.getEmulatorHost();
+                    const profile = runner.getHandler().cfg.resolvedProfile;
+                    const source = (setting: string) => profile?.settings.includes(setting) ? `  (profile ${profile.name})` : '';
 
+                    if (emulatorHost) {
+                        console.log(`\n🧪 EMULATOR MODE - connected to the Realtime Database emulator at ${emulatorHost}`);
+                        console.log('   Data lives in the local emulator, production is not touched.');
+                    }
                     console.log('\n📊 Firebase Connection Information:\n');
-                    console.log(`  Database URL: ${info.databaseUrl || 'Not set (using emulator?)'}`);
-                    console.log(`  Shift Path:   ${info.shift || '/'}`);
-                    console.log(`  Table Name:   ${info.tableName}`);
+                    if (profile) {
+                        const sources: Record<ProfileSource, string> = { cli: '--profile', env: 'MSR_PROFILE', config: 'config file' };
+                        console.log(`  Profile:      ${profile.name} (from ${sources[profile.source]})`);
+                        console.log(`  Overrides:    ${profile.settings.join(', ') || 'none'}`);
+                    }
+                    console.log(`  Database URL: ${info.databaseUrl || (emulatorHost ? '(emulator default namespace)' : 'Not set')}${source('databaseUrl')}`);
+                    console.log(`  Shift Path:   ${info.shift || '/'}${source('shift')}`);
+                    console.log(`  Table Name:   ${info.tableName}${source('tableName')}`);
                     console.log('');
-
-                    process.exit(0);
                 } catch (error) {
                     console.error('❌ Error:', error instanceof Error ? error.message : error);
-                    process.exit(7); // Database connection error
+                    code = 7; // Database connection error
+                } finally {
+                    await exit(runner, code);
+                }
+            });
+
+        program
+            .command('firebase:config-check')
+            .description('Validate the configuration: database URL, credentials, shift and lock timeout')
+            .option('--json', 'Print the issues as JSON')
+            .action(async (options: { json?: boolean }) => {
+                try {
+                    // Only validates, so no connection is opened and no lock storage is initialized
+                    const flags = program.opts();
+                    const issues = resolveConfig(loadConfig(flags), flags).validate();
+                    const errors = issues.filter(issue => issue.severity === 'error').length;
+
+                    if (options.json) {
+                        console.log(JSON.stringify({ valid: errors === 0, issues }, null, 2));
+                        process.exit(errors === 0 ? 0 : 1);
+                    }
+
+                    if (issues.length === 0) {
+                        console.log('✅ Configuration is valid');
+                        process.exit(0);
+                    }
+
+                    const fieldWidth = Math.max(...issues.map(issue => issue.field.length));
+                    const codeWidth = Math.max(...issues.map(issue => issue.code.length));
+                    console.log('\n🔧 Configuration issues:\n');
+                    issues.forEach(issue => {
+                        const icon = issue.severity === 'error' ? '❌' : '⚠️ ';
+                        console.log(`  ${icon} ${issue.field.padEnd(fieldWidth)}  ${issue.code.padEnd(codeWidth)}  ${issue.message}`);
+                    });
+                    const warnings = issues.length - errors;
+                    console.log(`\n  ${errors} error${errors === 1 ? '' : 's'}, ${warnings} warning${warnings === 1 ? '' : 's'}\n`);
+
+                    process.exit(errors === 0 ? 0 : 1);
+                } catch (error) {
+                    console.error('❌ Error checking configuration:', error instanceof Error ? error.message : error);
+                    process.exit(7);
                 }
             });
 
@@ -97,23 +329,34 @@ const program = createCLI<IFirebaseDB, FirebaseRunner, FirebaseConfig>({
             .command('firebase:test-connection')
             .description('Test Firebase database connection')
             .action(async () => {
+                let runner: FirebaseRunner | undefined;
+                let code = 0;
                 try {
-                    const runner = await createExecutor();
+                    runner = await createExecutor();
                     const firebaseDb = runner.getHandler().db;
-                    const isConnected = await firebaseDb.checkConnection();
+                    const status = firebaseDb.getConnectionStatus
+                        ? await firebaseDb.getConnectionStatus()
+                        : { connected: await firebaseDb.checkConnection(), latencyMs: null, serverTimeOffset: null };
 
-                    if (isConnected) {
+                    if (status.connected) {
                         console.log('✅ Firebase connection successful!');
                         const info = runner.getConnectionInfo();
-                        console.log(`   Connected to: ${info.databaseUrl || 'localhost (emulator)'}`);
-                        process.exit(0);
+                        console.log(`   Connected to:       ${info.databaseUrl || 'localhost (emulator)'}`);
+                        if (status.latencyMs !== null) {
+                            console.log(`   Latency:            ${status.latencyMs} ms`);
+                            console.log(`   Server time offset: ${status.serverTimeOffset} ms`);
+                        }
+                        return;
                     } else {
-                        console.error('❌ Firebase connection failed');
-                        process.exit(7);
+                        console.error(`❌ Firebase connection failed: not connected within ${runner.getHandler().cfg.connectionTimeout} ms`);
+                        code = 7;
+                        return;
                     }
                 } catch (error) {
                     console.error('❌ Error testing connection:', error instanceof Error ? error.message : error);
-                    process.exit(7);
+                    code = 7;
+                } finally {
+                    await exit(runner, code);
                 }
             });
 
@@ -121,13 +364,15 @@ const program = createCLI<IFirebaseDB, FirebaseRunner, FirebaseConfig>({
             .command('firebase:nodes')
             .description('List all root nodes in Firebase database')
             .action(async () => {
+                let runner: FirebaseRunner | undefined;
+                let code = 0;
                 try {
-                    const runner = await createExecutor();
+                    runner = await createExecutor();
                     const nodes = await runner.listNodes();
 
                     if (nodes.length === 0) {
                         console.log('📭 No nodes found in database');
-                        process.exit(0);
+                        return;
                     }
 
                     console.log('\n📂 Root Nodes:\n');
@@ -135,11 +380,11 @@ const program = createCLI<IFirebaseDB, FirebaseRunner, FirebaseConfig>({
                         console.log(`  ${index + 1}. ${node}`);
                     });
                     console.log(`\n  Total: ${nodes.length} node${nodes.length === 1 ? '' : 's'}\n`);
-
-                    process.exit(0);
                 } catch (error) {
                     console.error('❌ Error listing nodes:', error instanceof Error ? error.message : error);
-                    process.exit(7);
+                    code = 7;
+                } finally {
+                    await exit(runner, code);
                 }
             });
 
@@ -148,8 +393,10 @@ const program = createCLI<IFirebaseDB, FirebaseRunner, FirebaseConfig>({
             .description('Backup specific Firebase nodes')
             .argument('<nodes...>', 'Node paths to backup (e.g., users posts)')
             .action(async (nodes: string[]) => {
+                let runner: FirebaseRunner | undefined;
+                let code = 0;
                 try {
-                    const runner = await createExecutor();
+                    runner = await createExecutor();
                     const backup = await runner.backupNodes(nodes);
 
                     console.log('\n💾 Node Backup:\n');
@@ -165,15 +412,235 @@ const program = createCLI<IFirebaseDB, FirebaseRunner, FirebaseConfig>({
                     console.log('\n📄 Backup Data:\n');
                     console.log(JSON.stringify(backup, null, 2));
                     console.log('');
-
-                    process.exit(0);
                 } catch (error) {
                     console.error('❌ Error backing up nodes:', error instanceof Error ? error.message : error);
+                    code = 7;
+                } finally {
+                    await exit(runner, code);
+                }
+            });
+
+        program
+            .command('firebase:export')
+            .description('Export a node to a JSON file in the Firebase console format')
+            .argument('<path>', 'Node path relative to the shift (e.g., users)')
+            .requiredOption('--out <file>', 'Output JSON file')
+            .action(async (path: string, options: { out: string }) => {
+                let runner: FirebaseRunner | undefined;
+                let code = 0;
+                try {
+                    runner = await createExecutor();
+                    const summary = await runner.exportData(path, options.out);
+
+                    console.log(`✅ Exported ${summary.path} → ${options.out}`);
+                    console.log(`   ${summary.keys} key${summary.keys === 1 ? '' : 's'}, ${summary.bytes} bytes`);
+                } catch (error) {
+                    console.error('❌ Error exporting data:', error instanceof Error ? error.message : error);
+                    code = 7;
+                } finally {
+                    await exit(runner, code);
+                }
+            });
+
+        program
+            .command('firebase:import')
+            .description('Import a JSON file in the Firebase console format into a node')
+            .argument('<path>', 'Node path relative to the shift (e.g., users)')
+            .argument('<file>', 'JSON file to import')
+            .option('--mode <mode>', 'merge: update top-level keys, replace: overwrite the node (default: merge)', 'merge')
+            .action(async (path: string, file: string, options: { mode: ImportMode }) => {
+                let runner: FirebaseRunner | undefined;
+                let code = 0;
+                try {
+                    runner = await createExecutor();
+                    const summary = await runner.importData(path, file, { mode: options.mode });
+
+                    console.log(`✅ Imported ${file} → ${summary.path} (${options.mode})`);
+                    console.log(`   ${summary.keys} key${summary.keys === 1 ? '' : 's'}, ${summary.bytes} bytes`);
+                } catch (error) {
+                    console.error('❌ Error importing data:', error instanceof Error ? error.message : error);
+                    code = 7;
+                } finally {
+                    await exit(runner, code);
+                }
+            });
+
+        program
+            .command('firebase:restore')
+            .description('Restore a backup into the configured shift')
+            .argument('<backup>', 'Backup id or path to a backup/manifest file')
+            .option('--dry-run', 'Show what would change without writing anything')
+            .option('--json', 'Print the dry-run diff as JSON')
+            .option('--target-shift <shift>', 'Restore into another shift, rewriting paths from the backup shift')
+            .option('--force', 'Overwrite the target shift even if it is not empty')
+            .action(async (backup: string, options: { dryRun?: boolean, json?: boolean, targetShift?: string, force?: boolean }) => {
+                let runner: FirebaseRunner | undefined;
+                let code = 0;
+                try {
+                    runner = await createExecutor();
+                    const { targetShift, force } = options;
+
+                    if (!options.dryRun) {
+                        await runner.restoreBackup(backup, { targetShift, force });
+                        console.log(`✅ Backup restored: ${backup}${targetShift ? ` → ${targetShift}` : ''}`);
+                        return;
+                    }
+
+                    const diff = await runner.diffBackup(backup, { targetShift });
+                    if (options.json) {
+                        console.log(JSON.stringify(diff, null, 2));
+                        return;
+                    }
+
+                    console.log(`\n🔍 Restore dry-run: ${backup}${targetShift ? ` → ${targetShift}` : ''}\n`);
+                    console.log(`  ➕ Added:   ${diff.counts.added}`);
+                    console.log(`  ➖ Removed: ${diff.counts.removed}`);
+                    console.log(`  ✏️  Changed: ${diff.counts.changed}`);
+
+                    const total = diff.counts.added + diff.counts.removed + diff.counts.changed;
+                    if (total === 0) {
+                        console.log('\n  No changes - live data matches the backup\n');
+                        return;
+                    }
+
+                    console.log('');
+                    diff.added.forEach(path => console.log(`  + ${path}`));
+                    diff.removed.forEach(path => console.log(`  - ${path}`));
+                    diff.changed.forEach(path => console.log(`  ~ ${path}`));
+                    console.log(`\n  Total: ${total} path${total === 1 ? '' : 's'} would change\n`);
+                } catch (error) {
+                    console.error('❌ Error restoring backup:', error instanceof Error ? error.message : error);
+                    code = 7;
+                } finally {
+                    await exit(runner, code);
+                }
+            });
+
+        program
+            .command('firebase:backup-verify')
+            .description('Verify a persisted backup: checksum, content and key names')
+            .argument('<backup>', 'Backup id or path to a backup/manifest file')
+            .option('--live', 'Also compare node hashes with the live database to report drift')
+            .option('--json', 'Print the verification result as JSON')
+            .action(async (backup: string, options: { live?: boolean, json?: boolean }) => {
+                let runner: FirebaseRunner | undefined;
+                let code = 0;
+                try {
+                    runner = await createExecutor();
+                    const result = await runner.verifyBackup(backup, { live: options.live });
+
+                    if (options.json) {
+                        console.log(JSON.stringify(result, null, 2));
+                        code = result.valid ? 0 : 1;
+                        return;
+                    }
+
+                    console.log(`\n🔎 Verifying backup: ${result.id}\n`);
+                    if (result.checksum === null) {
+                        console.log('  ⚠️  No manifest - checksum not verified');
+                    } else {
+                        console.log(`  ${result.checksum ? '✅' : '❌'} Checksum ${result.checksum ? 'matches' : 'does not match'} manifest`);
+                    }
+                    console.log(`  📦 Nodes checked: ${result.nodes}`);
+
+                    if (result.errors.length > 0) {
+                        console.log(`\n  ❌ ${result.errors.length} problem${result.errors.length === 1 ? '' : 's'} found:\n`);
+                        result.errors.forEach(error => console.log(`    - ${error}`));
+                    }
+
+                    if (result.drift) {
+                        if (result.drift.length === 0) {
+                            console.log('  ✅ Live data matches the backup');
+                        } else {
+                            console.log(`\n  🔀 ${result.drift.length} node${result.drift.length === 1 ? '' : 's'} drifted since the backup:\n`);
+                            result.drift.forEach(({ path, backupHash, liveHash }) => {
+                                const change = backupHash === null ? '+' : liveHash === null ? '-' : '~';
+                                console.log(`    ${change} ${path}`);
+                            });
+                        }
+                    }
+
+                    console.log(`\n${result.valid ? '✅ Backup is valid' : '❌ Backup is invalid'}\n`);
+                    code = result.valid ? 0 : 1;
+                } catch (error) {
+                    console.error('❌ Error verifying backup:', error instanceof Error ? error.message : error);
+                    code = 7;
+                } finally {
+                    await exit(runner, code);
+                }
+            });
+
+        program
+            .command('firebase:backup-prune')
+            .description('Delete persisted backups not retained by the retention policy')
+            .option('--dry-run', 'List the backups that would be deleted without deleting them')
+            .action(async (options: { dryRun?: boolean }) => {
+                let runner: FirebaseRunner | undefined;
+                let code = 0;
+                try {
+                    runner = await createExecutor();
+
+                    if (!BackupRetention.isConfigured(runner.getHandler().cfg.backup)) {
+                        console.log('⚠️  No retention policy configured (--backup-keep-last, --backup-keep-days, --backup-keep-per-version) - nothing to prune');
+                        return;
+                    }
+
+                    const plan = await runner.pruneBackups({ dryRun: true });
+                    if (plan.prune.length === 0) {
+                        console.log(`✅ Nothing to prune - all ${plan.keep.length} backup${plan.keep.length === 1 ? '' : 's'} retained`);
+                        return;
+                    }
+
+                    console.log(`\n🗑️  Backups to delete (${plan.prune.length}):\n`);
+                    plan.prune.forEach(manifest => {
+                        const version = manifest.migrationVersion ?? '-';
+                        console.log(`  - ${manifest.id}  ${manifest.createdAt}  version: ${version}  ${manifest.size} bytes`);
+                    });
+                    console.log(`\n  Keeping ${plan.keep.length} backup${plan.keep.length === 1 ? '' : 's'}\n`);
+
+                    if (options.dryRun) {
+                        return;
+                    }
+
+                    const result = await runner.pruneBackups();
+                    console.log(`✅ Deleted ${result.prune.length} backup${result.prune.length === 1 ? '' : 's'}`);
+                } catch (error) {
+                    console.error('❌ Error pruning backups:', error instanceof Error ? error.message : error);
+                    code = 7;
+                } finally {
+                    await exit(runner, code);
+                }
+            });
+
+        program
+            .command('firebase:migrate-shards')
+            .description('Apply migrations to every shard listed in databaseUrl, one after another')
+            .argument('[targetVersion]', 'Version to migrate every shard to (default: latest)')
+            .action(async (targetVersion?: string) => {
+                try {
+                    const version = targetVersion === undefined ? undefined : parseVersion(targetVersion);
+                    const flags = program.opts();
+                    const config = resolveConfig(loadConfig(flags), flags);
+                    const summary = await FirebaseRunner.migrateShards({ config }, version);
+
+                    console.log('\n🗄️  Sharded migration:\n');
+                    summary.shards.forEach(shard => {
+                        const detail = shard.error ?? `${shard.result?.executed.length ?? 0} migration${shard.result?.executed.length === 1 ? '' : 's'} applied`;
+                        console.log(`  ${shard.success ? '✅' : '❌'} ${shard.name}: ${detail}`);
+                    });
+                    summary.skipped.forEach(name => console.log(`  ⏭️  ${name}: skipped after a failure`));
+                    console.log('');
+
+                    process.exit(summary.success ? 0 : 1);
+                } catch (error) {
+                    console.error('❌ Error migrating shards:', error instanceof Error ? error.message : error);
                     process.exit(7);
                 }
             });
     },
 });
 
-// Parse command-line arguments
-program.parse(process.argv);
+// Parse command-line arguments when run as the msr-firebase binary, not when imported
+if (require.main === module) {
+    program.parse(process.argv);
+}
@@ -0,0 +1,25 @@
+import { IConfigIssue } from '../interface';
+
+/**
+ * Thrown by {@link FirebaseRunner.getInstance} when {@link FirebaseConfig.validate} reports errors.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *     await FirebaseRunner.getInstance({ config: appConfig });
+ * } catch (error) {
+ *     if (error instanceof ConfigValidationError) {
+ *         error.issues.forEach(issue => console.error(`${issue.field}: ${issue.message}`));
+ *     }
+ * }
+ * ```
+ */
+export class ConfigValidationError extends TypeError {
+    /**
+     * @param issues - Issues with severity `error`
+     */
+    constructor(public readonly issues: IConfigIssue[]) {
+        super(`Invalid configuration: ${issues.map(issue => `${issue.field}: ${issue.message}`).join('; ')}`);
+        this.name = 'ConfigValidationError';
+    }
+}
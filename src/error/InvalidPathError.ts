@@ -0,0 +1,28 @@
+/**
+ * Thrown when a database path contains a segment Firebase does not accept as a key.
+ *
+ * Keys must not contain `.`, `#`, `$`, `[`, `]` or control characters and must not
+ * exceed 768 bytes. The meta keys `.priority` and `.value` are allowed as the final segment.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *     config.buildPath('users/john.doe');
+ * } catch (error) {
+ *     if (error instanceof InvalidPathError) {
+ *         console.error(error.segment); // 'john.doe'
+ *     }
+ * }
+ * ```
+ */
+export class InvalidPathError extends TypeError {
+    /**
+     * @param path - Full path that was rejected
+     * @param segment - Offending path segment
+     * @param reason - Why the segment is invalid
+     */
+    constructor(public readonly path: string, public readonly segment: string, reason: string) {
+        super(`Invalid database path "${path}": segment "${segment}" ${reason}`);
+        this.name = 'InvalidPathError';
+    }
+}
@@ -0,0 +1,2 @@
+export * from './ConfigValidationError'
+export * from './InvalidPathError'
\ No newline at end of file
@@ -1,4 +1,5 @@
+export * from './error'
 export * from './interface'
 export * from './model'
 export * from './service'
-export * from './FirebaseRunner'
+export * from './FirebaseRunner'
\ No newline at end of file
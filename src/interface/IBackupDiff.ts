@@ -0,0 +1,21 @@
+/**
+ * Structural difference between a backup and the live database.
+ *
+ * Paths describe what a restore of the backup would do: `added` paths exist only
+ * in the backup, `removed` paths exist only in the live data and `changed` paths
+ * hold different values. A whole missing subtree is reported once, at its root.
+ */
+export interface IBackupDiff {
+    /** Paths that restore would create */
+    added: string[];
+    /** Paths that restore would delete */
+    removed: string[];
+    /** Paths whose values restore would overwrite */
+    changed: string[];
+    /** Number of paths in each category */
+    counts: {
+        added: number;
+        removed: number;
+        changed: number;
+    };
+}
@@ -0,0 +1,52 @@
+/**
+ * Layout of a persisted backup file.
+ *
+ * - `json` - a single JSON document mapping node paths to their values
+ * - `ndjson` - newline-delimited JSON records written incrementally by streaming backups
+ */
+export type BackupFormat = 'json' | 'ndjson';
+
+/**
+ * Compression applied to a persisted backup file.
+ */
+export type BackupCompression = 'gzip';
+
+/**
+ * Encryption applied to a persisted backup file.
+ */
+export type BackupEncryption = 'aes-256-gcm';
+
+/**
+ * Metadata stored next to every persisted backup file.
+ *
+ * Written by {@link BackupService} when `backup.directory` is configured and used
+ * to locate, verify and prune backups.
+ */
+export interface IBackupManifest {
+    /** Unique backup identifier, also used as the backup file name prefix */
+    id: string;
+    /** Backup creation time (milliseconds since epoch) */
+    timestamp: number;
+    /** Backup creation time as ISO-8601 string */
+    createdAt: string;
+    /** Shift (environment subtree) the backup was taken from, normalized such as `/staging` */
+    shift: string | null;
+    /** Database URL the backup was taken from */
+    databaseUrl: string | null;
+    /** Absolute node paths included in the backup */
+    nodes: string[];
+    /** Backup file layout: a single JSON document or one record per line (streaming) */
+    format: BackupFormat;
+    /** Backup file name, relative to the backup directory */
+    file: string;
+    /** Compression of the backup file, null when stored uncompressed */
+    compression: BackupCompression | null;
+    /** Encryption of the backup file, null when stored in plaintext */
+    encryption: BackupEncryption | null;
+    /** Backup file size in bytes */
+    size: number;
+    /** SHA-256 checksum (hex) of the backup file as stored (after compression and encryption) */
+    sha256: string;
+    /** Timestamp of the last applied migration when the backup was taken */
+    migrationVersion: number | null;
+}
@@ -0,0 +1,13 @@
+import { IBackupManifest } from './IBackupManifest';
+
+/**
+ * Result of applying the backup retention policy to the persisted backups.
+ *
+ * Both lists are sorted newest first.
+ */
+export interface IBackupPrunePlan {
+    /** Backups retained by at least one retention rule */
+    keep: IBackupManifest[];
+    /** Backups no rule retains - deleted by prune */
+    prune: IBackupManifest[];
+}
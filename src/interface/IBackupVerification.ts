@@ -0,0 +1,28 @@
+/**
+ * Result of verifying a persisted backup.
+ *
+ * A backup is valid when its file matches the manifest checksum, can be decoded
+ * and parsed, and only contains keys that are legal in the Realtime Database.
+ * Drift against the live database is informational and does not affect validity.
+ */
+export interface IBackupVerification {
+    /** Backup identifier, or the verified path when the backup has no manifest */
+    id: string;
+    /** True when no errors were found */
+    valid: boolean;
+    /** Whether the stored file matches the manifest size and checksum, null without a manifest */
+    checksum: boolean | null;
+    /** Number of checked nodes (children of every backed-up node) */
+    nodes: number;
+    /** Problems found: checksum mismatch, unreadable content, illegal paths */
+    errors: string[];
+    /**
+     * Nodes whose live data no longer matches the backup, compared by SHA-256 hash.
+     * A null hash means the node is missing on that side. Only set when compared with live data.
+     */
+    drift?: {
+        path: string;
+        backupHash: string | null;
+        liveHash: string | null;
+    }[];
+}
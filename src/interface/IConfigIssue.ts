@@ -0,0 +1,36 @@
+/**
+ * Kind of problem found by {@link FirebaseConfig.validate}.
+ *
+ * - `missing-database-url` - no `databaseUrl` and no emulator configured
+ * - `invalid-database-url` - `databaseUrl` is not an `https://` (or emulator `http://`) URL
+ * - `unreadable-credentials` - the service account key cannot be read or parsed
+ * - `project-mismatch` - the service account belongs to another project than the database
+ * - `invalid-shift` - `shift` contains characters Firebase does not accept in keys
+ * - `lock-timeout-out-of-range` - `locking.timeout` is outside the supported range
+ */
+export type ConfigIssueCode =
+    | 'missing-database-url'
+    | 'invalid-database-url'
+    | 'unreadable-credentials'
+    | 'project-mismatch'
+    | 'invalid-shift'
+    | 'lock-timeout-out-of-range';
+
+/**
+ * Severity of a configuration issue. Errors prevent the runner from starting, warnings are only reported.
+ */
+export type ConfigIssueSeverity = 'error' | 'warning';
+
+/**
+ * Problem found in a {@link FirebaseConfig} before connecting.
+ */
+export interface IConfigIssue {
+    /** Kind of problem */
+    code: ConfigIssueCode;
+    /** Whether the problem prevents the runner from starting */
+    severity: ConfigIssueSeverity;
+    /** Configuration property the problem was found in, e.g. `databaseUrl` */
+    field: string;
+    /** Human-readable description */
+    message: string;
+}
@@ -0,0 +1,11 @@
+/**
+ * Result of a Firebase connectivity check.
+ */
+export interface IConnectionStatus {
+    /** Whether `.info/connected` became true within the timeout */
+    connected: boolean;
+    /** Milliseconds for a read round trip to the server, null when not connected */
+    latencyMs: number | null;
+    /** Estimated difference between server and local clock in milliseconds (`.info/serverTimeOffset`), null when not connected */
+    serverTimeOffset: number | null;
+}
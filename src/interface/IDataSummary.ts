@@ -0,0 +1,11 @@
+/**
+ * Size of a subtree moved by `exportData()` or `importData()`.
+ */
+export interface IDataSummary {
+    /** Absolute database path (shift prefix included) */
+    path: string;
+    /** Size of the JSON document in bytes */
+    bytes: number;
+    /** Total number of keys in the subtree, nested keys included */
+    keys: number;
+}
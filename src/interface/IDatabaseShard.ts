@@ -0,0 +1,9 @@
+/**
+ * One Realtime Database instance of a sharded project.
+ */
+export interface IDatabaseShard {
+    /** Shard name: the key of a shard map, otherwise the database namespace (e.g. `project-1`) */
+    name: string;
+    /** Database URL of the shard */
+    databaseUrl: string;
+}
@@ -0,0 +1,37 @@
+/**
+ * Cursor pointing after the last entity of a page, see {@link IEntityPage.next}.
+ */
+export interface IPageCursor {
+    /** Key of the last entity of the previous page */
+    startAfterKey: string;
+    /** `orderBy` child value of the last entity of the previous page, set when ordering by child */
+    startAfterValue?: number | string | boolean | null;
+}
+
+/**
+ * Options for {@link EntityService.getPage}.
+ */
+export interface IPageOptions extends Partial<IPageCursor> {
+    /** Maximum number of entities per page */
+    limit: number;
+    /** Child to order by, e.g. `createdAt` or `profile/age`; entities are ordered by key when not set */
+    orderBy?: string;
+}
+
+/**
+ * One page of entities returned by {@link EntityService.getPage}.
+ *
+ * @example
+ * ```typescript
+ * let page = await userService.getPage({ limit: 500 });
+ * while (page.next) {
+ *     page = await userService.getPage({ limit: 500, ...page.next });
+ * }
+ * ```
+ */
+export interface IEntityPage<T> {
+    /** Entities in query order */
+    items: T[];
+    /** Cursor of the next page, null when this is the last page */
+    next: IPageCursor | null;
+}
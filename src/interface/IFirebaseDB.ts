@@ -1,5 +1,6 @@
 import { IDB } from '@migration-script-runner/core';
 import { database } from 'firebase-admin';
+import { IConnectionStatus } from './IConnectionStatus';
 
 /**
  * Firebase database interface for MSR migrations.
@@ -39,4 +40,14 @@ export interface IFirebaseDB extends IDB {
      * @see https://firebase.google.com/docs/database/web/read-and-write#save_data_as_transactions
      */
     database: database.Database;
+
+    /**
+     * Checks the connection and reports the round-trip latency and the server clock offset.
+     *
+     * Optional, so custom implementations only need `checkConnection()`; `FirebaseDB` implements it.
+     *
+     * @param timeout - Milliseconds to wait for `.info/connected` to become true
+     * @returns Connection status; `connected` is false when the timeout elapsed or the check failed
+     */
+    getConnectionStatus?(timeout?: number): Promise<IConnectionStatus>;
 }
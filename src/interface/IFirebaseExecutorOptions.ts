@@ -0,0 +1,27 @@
+import { IExecutorOptions } from '@migration-script-runner/core';
+import { app, database } from 'firebase-admin';
+import { FirebaseConfig } from '../model';
+import { IFirebaseDB } from './IFirebaseDB';
+
+/**
+ * Options for {@link FirebaseRunner.getInstance}.
+ *
+ * By default the runner initializes its own Firebase app from the configured credentials.
+ * Host applications that already initialized firebase-admin (custom HTTP agents, auth
+ * overrides) can pass their `database` or `app` instead, so the runner shares its connection
+ * and auth configuration. A shared database or app is not deleted by `runner.close()`.
+ *
+ * @example
+ * ```typescript
+ * const runner = await FirebaseRunner.getInstance({
+ *     config: appConfig,
+ *     database: admin.app().database()
+ * });
+ * ```
+ */
+export interface IFirebaseExecutorOptions extends IExecutorOptions<IFirebaseDB, FirebaseConfig> {
+    /** Pre-built database to run migrations against; credentials and `databaseUrl` are not used */
+    database?: database.Database;
+    /** Pre-built Firebase app whose database (at `databaseUrl`, or the app default) is used */
+    app?: app.App;
+}
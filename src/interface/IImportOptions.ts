@@ -0,0 +1,15 @@
+/**
+ * How imported data is written.
+ *
+ * - `merge` - top-level keys of the file are written with `update()`, other children are kept
+ * - `replace` - the whole node is overwritten with `set()`, like a Firebase console import
+ */
+export type ImportMode = 'merge' | 'replace';
+
+/**
+ * Options for importing a JSON document into the database.
+ */
+export interface IImportOptions {
+    /** Write mode (default: `merge`) */
+    mode?: ImportMode;
+}
@@ -0,0 +1,20 @@
+/**
+ * Where the name of the applied profile came from.
+ *
+ * - `cli` - the `--profile` flag
+ * - `env` - the `MSR_PROFILE` environment variable
+ * - `config` - the `profile` property of the configuration
+ */
+export type ProfileSource = 'cli' | 'env' | 'config';
+
+/**
+ * Profile applied by {@link FirebaseConfig.applyProfile}.
+ */
+export interface IResolvedProfile {
+    /** Profile name, a key of `profiles` */
+    name: string;
+    /** Where the profile name came from */
+    source: ProfileSource;
+    /** Settings taken from the profile, e.g. `databaseUrl`, `shift`, `locking` */
+    settings: string[];
+}
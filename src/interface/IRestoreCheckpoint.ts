@@ -0,0 +1,22 @@
+/**
+ * Progress of an interrupted restore.
+ *
+ * Saved by {@link BackupService} after every committed write batch, so that a restore
+ * of the same backup can skip the batches that already reached the database.
+ * Batch boundaries depend on the batching settings, so the checkpoint is only used
+ * when they have not changed since.
+ */
+export interface IRestoreCheckpoint {
+    /** Identity of the backup being restored (its SHA-256 checksum or file path) */
+    backup: string;
+    /** Number of write batches already committed */
+    batches: number;
+    /** Maximum payload size of a write batch in bytes (`backup.maxBatchSize`) */
+    maxBatchSize: number;
+    /** Maximum number of paths of a write batch (`backup.pageSize`) */
+    maxBatchPaths: number;
+    /** Absolute paths of the nodes excluded from the restore */
+    excludeNodes: string[];
+    /** Time of the last committed batch as ISO-8601 string */
+    updatedAt: string;
+}
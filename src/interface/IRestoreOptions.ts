@@ -0,0 +1,17 @@
+/**
+ * Options for restoring a backup.
+ */
+export interface IRestoreOptions {
+    /**
+     * Shift to restore into instead of the configured one, e.g. to clone a
+     * `production` backup into `staging`. Node paths are rewritten from the
+     * backup's source shift to this shift.
+     */
+    targetShift?: string;
+
+    /**
+     * Overwrite the target shift even if it already contains data.
+     * Only checked when `targetShift` is set.
+     */
+    force?: boolean;
+}
@@ -0,0 +1,27 @@
+import { IMigrationResult } from '@migration-script-runner/core';
+import { IDatabaseShard } from './IDatabaseShard';
+import { IFirebaseDB } from './IFirebaseDB';
+
+/**
+ * Outcome of migrating a single shard.
+ */
+export interface IShardMigrationResult extends IDatabaseShard {
+    /** Whether the shard was migrated successfully */
+    success: boolean;
+    /** Migration result of the shard, missing when the runner could not be created */
+    result?: IMigrationResult<IFirebaseDB>;
+    /** Error message when the shard could not be migrated */
+    error?: string;
+}
+
+/**
+ * Combined outcome of migrating every shard with {@link FirebaseRunner.migrateShards}.
+ */
+export interface IShardedMigrationResult {
+    /** Whether every shard was migrated successfully */
+    success: boolean;
+    /** Results of the shards that were run, in configuration order */
+    shards: IShardMigrationResult[];
+    /** Names of shards not run because an earlier shard failed */
+    skipped: string[];
+}
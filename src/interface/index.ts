@@ -1,2 +1,17 @@
+export * from './IBackupDiff'
+export * from './IBackupManifest'
+export * from './IBackupPrunePlan'
+export * from './IBackupVerification'
+export * from './IConfigIssue'
+export * from './IConnectionStatus'
+export * from './IDatabaseShard'
+export * from './IDataSummary'
 export * from './IEntity'
-export * from './IFirebaseDB'
\ No newline at end of file
+export * from './IEntityPage'
+export * from './IFirebaseDB'
+export * from './IFirebaseExecutorOptions'
+export * from './IImportOptions'
+export * from './IRestoreCheckpoint'
+export * from './IResolvedProfile'
+export * from './IRestoreOptions'
+export * from './IShardedMigrationResult'
\ No newline at end of file
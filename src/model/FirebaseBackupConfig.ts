@@ -0,0 +1,90 @@
+import { BackupConfig } from '@migration-script-runner/core';
+
+/**
+ * Firebase-specific backup configuration.
+ *
+ * Extends MSR Core's `BackupConfig` with node selection for content backups.
+ * All node paths are relative to the configured `shift`.
+ *
+ * @example
+ * ```typescript
+ * config.backup.nodes = ['users', 'posts'];
+ * config.backup.excludeNodes = ['users/analytics'];
+ * config.backup.directory = './backups/firebase';
+ * config.backup.compress = true;
+ * config.backup.keepLast = 10;
+ * ```
+ */
+export class FirebaseBackupConfig extends BackupConfig {
+    /**
+     * Nodes to back up. Empty list means the whole shift subtree.
+     */
+    nodes: string[] = [];
+
+    /**
+     * Nodes to skip while backing up and restoring (e.g. analytics, logs).
+     */
+    excludeNodes: string[] = [];
+
+    /**
+     * Directory where content backups are persisted as timestamped files with a manifest.
+     * When undefined, backups are kept in memory only.
+     */
+    directory: string | undefined;
+
+    /**
+     * Streams the backup to disk as NDJSON, paging through children instead of loading
+     * whole nodes into memory. Requires `directory`.
+     */
+    streaming: boolean = false;
+
+    /**
+     * Number of children read per query (and records written per update) in streaming mode.
+     */
+    pageSize: number = 1000;
+
+    /**
+     * Backs up with `exportVal()` instead of `val()`, so `.priority` values are kept and
+     * restored. In streaming mode this covers the children of each backed-up node,
+     * but not the priority of the node itself.
+     */
+    lossless: boolean = false;
+
+    /**
+     * Maximum payload size in bytes of a single restore write. Larger nodes are
+     * split into batched multi-path updates to stay within Firebase write limits.
+     */
+    maxBatchSize: number = 1024 * 1024;
+
+    /**
+     * Compresses persisted backups with gzip. Compressed backups are detected
+     * automatically on restore.
+     */
+    compress: boolean = false;
+
+    /**
+     * AES-256-GCM key for encrypting backups: 64 hex characters or base64 of 32 bytes.
+     */
+    encryptionKey: string | undefined = process.env.MSR_FIREBASE_BACKUP_KEY;
+
+    /**
+     * Path to a file holding the backup encryption key (raw 32 bytes, hex or base64).
+     * Used when `encryptionKey` is not set.
+     */
+    encryptionKeyFile: string | undefined = process.env.MSR_FIREBASE_BACKUP_KEY_FILE;
+
+    /**
+     * Retention: number of most recent persisted backups to keep when pruning.
+     */
+    keepLast: number | undefined;
+
+    /**
+     * Retention: keep persisted backups created within this many days when pruning.
+     */
+    keepDays: number | undefined;
+
+    /**
+     * Retention: keep the most recent persisted backup of every migration version when pruning.
+     */
+    keepPerVersion: boolean = false;
+}
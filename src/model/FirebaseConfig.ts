@@ -1,12 +1,104 @@
 import { Config, TransactionMode } from '@migration-script-runner/core';
+import { ServiceAccount } from 'firebase-admin';
+import { readFileSync } from 'node:fs';
+import { FirebaseBackupConfig } from './FirebaseBackupConfig';
+import { IConfigIssue, IDatabaseShard, IResolvedProfile, ProfileSource } from '../interface';
+import { InvalidPathError } from '../error';
+
+// Realtime Database key restrictions
+// eslint-disable-next-line no-control-regex
+const ILLEGAL_KEY = /[.$#[\]/\u0000-\u001F\u007F]/;
+const META_SEGMENTS = ['.priority', '.value'];
+const MAX_KEY_BYTES = 768;
+
+// Supported range of locking.timeout: one second to one day
+const MIN_LOCK_TIMEOUT = 1000;
+const MAX_LOCK_TIMEOUT = 24 * 60 * 60 * 1000;
+const DEFAULT_INSTANCE_SUFFIX = '-default-rtdb';
+const SERVICE_ACCOUNT_FIELDS = ['project_id', 'client_email', 'private_key'];
+
+/**
+ * How {@link DBConnector} authenticates with Firebase.
+ *
+ * - `file` - service account key file (`applicationCredentials`)
+ * - `adc` - Application Default Credentials
+ * - `json` - service account key given inline (`credentialsJson`)
+ */
+export type CredentialsMode = 'file' | 'adc' | 'json';
+
+/**
+ * Settings of a named environment profile, see {@link FirebaseConfig.profiles}.
+ * `locking` and `backup` are merged into the base settings, all other values replace them.
+ */
+export type FirebaseProfile = Partial<Pick<FirebaseConfig,
+    'databaseUrl' | 'shift' | 'tableName' | 'applicationCredentials' | 'credentialsMode' | 'credentialsJson'
+    | 'emulatorHost' | 'databaseAuthVariableOverride' | 'connectionTimeout'>> & {
+    locking?: Partial<FirebaseConfig['locking']>;
+    backup?: Partial<FirebaseBackupConfig>;
+};
 
 export class FirebaseConfig extends Config {
     applicationCredentials: string | undefined = process.env.GOOGLE_APPLICATION_CREDENTIALS;
-    databaseUrl: string | undefined = process.env.DATABASE_URL;
 
-    shift: string | undefined;
+    /**
+     * Database URL. Sharded projects list the URLs of all database instances, or map shard
+     * names to URLs; run them with {@link FirebaseRunner.migrateShards}.
+     */
+    databaseUrl: string | string[] | Record<string, string> | undefined = process.env.DATABASE_URL;
+
+    /**
+     * Credentials mode. Detected from the configured credentials when undefined:
+     * `json` if `credentialsJson` is set, `file` if `applicationCredentials` is set, `adc` otherwise.
+     */
+    credentialsMode: CredentialsMode | undefined;
+
+    /**
+     * Service account key as a JSON string or base64-encoded JSON, used in `json` credentials mode.
+     */
+    credentialsJson: string | undefined = process.env.FIREBASE_SERVICE_ACCOUNT_JSON;
+
+    /**
+     * `host:port` of the Realtime Database emulator. When set, {@link DBConnector} connects to the
+     * emulator without credentials. An `http://` `databaseUrl` is treated as an emulator URL as well.
+     */
+    emulatorHost: string | undefined = process.env.FIREBASE_DATABASE_EMULATOR_HOST;
+
+    /**
+     * Value of the `auth` variable in security rules for all database operations. When set, migrations
+     * run as this limited identity and rules are enforced; `null` runs them as an unauthenticated client.
+     * The Admin SDK bypasses rules when undefined.
+     */
+    databaseAuthVariableOverride: object | null | undefined;
+
+    /**
+     * Milliseconds to wait for `.info/connected` when checking the connection.
+     */
+    connectionTimeout: number = 10000;
+
+    /**
+     * Path prefix all data lives under, e.g. `production`.
+     */
+    shift: string | undefined = process.env.MSR_FIREBASE_SHIFT;
     tableName: string = 'schema_version';
 
+    backup: FirebaseBackupConfig = new FirebaseBackupConfig();
+
+    /**
+     * Named environment profiles, e.g. `dev`, `staging` and `prod`, each with its own
+     * database, shift, credentials, locking and backup settings. See {@link applyProfile}.
+     */
+    profiles: Record<string, FirebaseProfile> = {};
+
+    /**
+     * Name of the profile to apply (`MSR_PROFILE` or `--profile`).
+     */
+    profile: string | undefined = process.env.MSR_PROFILE;
+
+    /**
+     * Profile applied by {@link applyProfile}, undefined when none was applied.
+     */
+    resolvedProfile: IResolvedProfile | undefined;
+
     constructor() {
         super();
         // Firebase Realtime Database does not support database-wide transactions
@@ -14,11 +106,367 @@ export class FirebaseConfig extends Config {
         this.transaction.mode = TransactionMode.NONE;
     }
 
+    /**
+     * Checks whether `databaseUrl` lists several database instances.
+     */
+    public isSharded(): boolean {
+        return typeof this.databaseUrl === 'object';
+    }
+
+    /**
+     * Lists the configured database instances.
+     *
+     * @returns Shards in configuration order; a single entry when `databaseUrl` is a string
+     * @throws TypeError if two listed URLs resolve to the same shard name
+     */
+    public getShards(): IDatabaseShard[] {
+        if (this.databaseUrl === undefined) {
+            return [];
+        }
+        if (typeof this.databaseUrl === 'string') {
+            return [{name: FirebaseConfig.getShardName(this.databaseUrl), databaseUrl: this.databaseUrl}];
+        }
+        if (!Array.isArray(this.databaseUrl)) {
+            return Object.entries(this.databaseUrl).map(([name, databaseUrl]) => ({name, databaseUrl}));
+        }
+        const shards = this.databaseUrl.map(databaseUrl => ({name: FirebaseConfig.getShardName(databaseUrl), databaseUrl}));
+        const names = new Set<string>();
+        for (const {name} of shards) {
+            if (names.has(name)) {
+                throw new TypeError(`Duplicate shard "${name}" in databaseUrl; use a map of shard names to URLs`);
+            }
+            names.add(name);
+        }
+        return shards;
+    }
+
+    /**
+     * Creates a copy of this configuration targeting a single shard.
+     *
+     * @param name - Shard name, see {@link getShards}
+     * @throws RangeError if no shard has this name
+     */
+    public forShard(name: string): this {
+        const shard = this.getShards().find(shard => shard.name === name);
+        if (!shard) {
+            throw new RangeError(`Unknown shard "${name}", expected one of: ${this.getShards().map(shard => shard.name).join(', ')}`);
+        }
+        return Object.assign(Object.create(Object.getPrototypeOf(this)), this, {databaseUrl: shard.databaseUrl});
+    }
+
+    /**
+     * Returns the URL of the single configured database.
+     *
+     * @throws TypeError if `databaseUrl` lists several shards
+     */
+    public getDatabaseUrl(): string | undefined {
+        if (typeof this.databaseUrl === 'object') {
+            const names = this.getShards().map(shard => shard.name).join(', ');
+            throw new TypeError(`databaseUrl lists shards (${names}); migrate them with FirebaseRunner.migrateShards() or select one with forShard()`);
+        }
+        return this.databaseUrl;
+    }
+
+    /**
+     * Returns the `host:port` of the Realtime Database emulator the configuration points at:
+     * `emulatorHost` (`FIREBASE_DATABASE_EMULATOR_HOST` or `--emulator`), or the host of a
+     * plain `http://` database URL such as `http://localhost:9000?ns=my-project`.
+     *
+     * @returns Emulator host, or undefined when connecting to a real database
+     */
+    public getEmulatorHost(): string | undefined {
+        if (this.emulatorHost) {
+            return this.emulatorHost;
+        }
+        if (typeof this.databaseUrl !== 'string') {
+            return undefined;
+        }
+        try {
+            const url = new URL(this.databaseUrl);
+            return url.protocol === 'http:' ? url.host : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Resolves the credentials mode, detecting it from the configured credentials when not set explicitly.
+     */
+    public getCredentialsMode(): CredentialsMode {
+        if (this.credentialsMode) {
+            return this.credentialsMode;
+        }
+        if (this.credentialsJson) {
+            return 'json';
+        }
+        return this.applicationCredentials ? 'file' : 'adc';
+    }
+
+    /**
+     * Applies a named profile: its settings replace the base settings, `locking` and `backup`
+     * are merged. Applying the profile that is already applied has no effect.
+     *
+     * Static so it also works on plain configuration objects, such as the CLI's merged config.
+     *
+     * @param config - Configuration to update
+     * @param name - Profile name (default: `config.profile`, then `MSR_PROFILE`)
+     * @param source - Where the name came from, detected when not given
+     * @returns The updated configuration
+     * @throws RangeError if no profile has this name
+     *
+     * @example
+     * ```typescript
+     * config.profiles = {
+     *     staging: { databaseUrl: 'https://project-staging-default-rtdb.firebaseio.com', shift: 'staging' },
+     *     prod: { databaseUrl: 'https://project-default-rtdb.firebaseio.com', shift: 'prod', locking: { enabled: true } }
+     * };
+     * FirebaseConfig.applyProfile(config, 'staging');
+     * ```
+     */
+    public static applyProfile<T extends FirebaseConfig>(config: T, name?: string, source?: ProfileSource): T {
+        const selected = name ?? config.profile ?? process.env.MSR_PROFILE;
+        if (!selected || config.resolvedProfile?.name === selected) {
+            return config;
+        }
+        const profile = config.profiles?.[selected];
+        if (!profile) {
+            const names = Object.keys(config.profiles ?? {});
+            throw new RangeError(`Unknown profile "${selected}", ${names.length ? `expected one of: ${names.join(', ')}` : 'no profiles configured'}`);
+        }
+
+        const { locking, backup, ...settings } = profile;
+        Object.assign(config, settings);
+        if (locking) {
+            config.locking = {...config.locking, ...locking};
+        }
+        if (backup) {
+            config.backup = Object.assign(config.backup ?? new FirebaseBackupConfig(), backup);
+        }
+        config.profile = selected;
+        config.resolvedProfile = {
+            name: selected,
+            source: source ?? (name === undefined && selected === process.env.MSR_PROFILE ? 'env' : 'config'),
+            settings: Object.keys(profile),
+        };
+        return config;
+    }
+
+    /**
+     * Checks the configuration for problems that would otherwise surface as late
+     * firebase-admin errors. Nothing is sent to Firebase.
+     *
+     * - `databaseUrl` is set (or an emulator is configured) and every URL is a valid `https://` or emulator `http://` URL
+     * - the service account key (`file` and `json` credentials modes) can be read and parsed
+     * - the service account belongs to the project of the database; reported as a warning when
+     *   the URL does not name a default instance, since custom instance names are free-form
+     * - `shift` is a valid database path
+     * - `locking.timeout` is between one second and one day
+     *
+     * @returns Issues found, empty when the configuration is valid
+     */
+    public validate(): IConfigIssue[] {
+        const issues: IConfigIssue[] = [];
+        const emulatorHost = this.getEmulatorHost();
+        const urls = typeof this.databaseUrl === 'object' ? Object.values(this.databaseUrl) : [this.databaseUrl].filter(Boolean) as string[];
+
+        if (urls.length === 0 && !emulatorHost) {
+            issues.push({code: 'missing-database-url', severity: 'error', field: 'databaseUrl',
+                message: 'Database URL is not set (databaseUrl, DATABASE_URL or --database-url)'});
+        }
+        const hosts: string[] = [];
+        for (const url of urls) {
+            let parsed: URL | undefined;
+            try {
+                parsed = new URL(url);
+            } catch {
+                // reported below
+            }
+            if (!parsed || (parsed.protocol !== 'https:' && parsed.protocol !== 'http:')) {
+                issues.push({code: 'invalid-database-url', severity: 'error', field: 'databaseUrl',
+                    message: `"${url}" is not a valid database URL, expected e.g. https://<project>-default-rtdb.firebaseio.com`});
+            } else if (parsed.protocol === 'https:') {
+                hosts.push(parsed.hostname);
+            }
+        }
+
+        const projectId = emulatorHost && !this.credentialsMode ? undefined : this.validateCredentials(issues);
+        for (const host of projectId ? hosts : []) {
+            const instance = host.split('.')[0];
+            const isDefault = instance.endsWith(DEFAULT_INSTANCE_SUFFIX);
+            const urlProject = isDefault ? instance.slice(0, -DEFAULT_INSTANCE_SUFFIX.length) : instance;
+            if (urlProject !== projectId) {
+                issues.push({code: 'project-mismatch', severity: isDefault ? 'error' : 'warning', field: 'databaseUrl',
+                    message: `Service account belongs to project "${projectId}" but ${host} ${isDefault ? `belongs to project "${urlProject}"` : `is instance "${instance}"`}`});
+            }
+        }
+
+        try {
+            FirebaseConfig.normalizeRoot(this.shift);
+        } catch (error) {
+            issues.push({code: 'invalid-shift', severity: 'error', field: 'shift', message: (error as Error).message});
+        }
+
+        const timeout = this.locking?.timeout;
+        if (timeout !== undefined && !(Number.isFinite(timeout) && timeout >= MIN_LOCK_TIMEOUT && timeout <= MAX_LOCK_TIMEOUT)) {
+            issues.push({code: 'lock-timeout-out-of-range', severity: 'error', field: 'locking.timeout',
+                message: `Lock timeout must be between ${MIN_LOCK_TIMEOUT} and ${MAX_LOCK_TIMEOUT} ms, got ${timeout}`});
+        }
+        return issues;
+    }
+
+    /**
+     * Gets the root path of the shift, `/` when no shift is configured.
+     */
     public getRoot() {
         return this.buildPath('');
     }
 
+    /**
+     * Builds an absolute database path below the shift.
+     *
+     * @param path - Path relative to the shift, e.g. `users/u1`
+     * @returns Normalized path such as `/staging/users/u1`
+     * @throws InvalidPathError if a segment is not a valid Firebase key
+     */
     public buildPath(path: string) {
-        return `${this.shift}/${path}`;
+        return FirebaseConfig.normalizePath(this.shift, path);
+    }
+
+    /**
+     * Joins path parts into a normalized absolute path (`/a/b`, root is `/`).
+     *
+     * Empty and undefined parts are skipped, and repeated, leading and trailing slashes collapse.
+     *
+     * @param parts - Path parts to join
+     * @throws InvalidPathError if a segment is not a valid Firebase key
+     */
+    public static normalizePath(...parts: (string | undefined)[]): string {
+        const segments = parts.flatMap(part => (part ?? '').split('/')).filter(Boolean);
+        const path = `/${segments.join('/')}`;
+        for (const [index, segment] of segments.entries()) {
+            // Meta keys address a value's priority or the value itself, so nothing lives below them
+            if (META_SEGMENTS.includes(segment) && index === segments.length - 1) {
+                continue;
+            }
+            const issue = FirebaseConfig.checkKey(segment);
+            if (issue) {
+                throw new InvalidPathError(path, segment, issue);
+            }
+        }
+        return path;
+    }
+
+    /**
+     * Normalizes the path of a node other data lives below, such as the shift or the
+     * migration table. Unlike {@link normalizePath} it rejects a trailing meta key as well.
+     *
+     * @param path - Path to normalize
+     * @throws InvalidPathError if a segment is not a valid Firebase key or the path ends in a meta key
+     */
+    public static normalizeRoot(path: string | undefined): string {
+        const root = FirebaseConfig.normalizePath(path);
+        const last = root.slice(root.lastIndexOf('/') + 1);
+        if (META_SEGMENTS.includes(last)) {
+            throw new InvalidPathError(root, last, 'is a meta key, so no data can live below it');
+        }
+        return root;
+    }
+
+    /**
+     * Checks a single key against the Realtime Database key restrictions.
+     *
+     * @param key - Key to check, e.g. one path segment
+     * @returns Why the key is rejected, or `undefined` if it is valid
+     */
+    public static checkKey(key: string): string | undefined {
+        if (!key) {
+            return 'is empty';
+        }
+        if (ILLEGAL_KEY.test(key)) {
+            return 'contains ".", "#", "$", "[", "]", "/" or a control character';
+        }
+        if (Buffer.byteLength(key) > MAX_KEY_BYTES) {
+            return `is longer than ${MAX_KEY_BYTES} bytes`;
+        }
+        return undefined;
+    }
+
+    /**
+     * Parses a service account key given as raw JSON or base64-encoded JSON.
+     *
+     * @param value - Key content
+     * @param source - Where the key comes from, used in error messages
+     * @throws TypeError if the value is not (base64-encoded) JSON or misses required fields
+     */
+    public static parseServiceAccount(value: string, source = 'credentialsJson'): ServiceAccount {
+        const text = value.trim();
+        const json = text.startsWith('{') ? text : Buffer.from(text, 'base64').toString('utf-8');
+        let serviceAccount: Record<string, unknown>;
+        try {
+            serviceAccount = JSON.parse(json);
+        } catch {
+            throw new TypeError(`Service account JSON (${source}) is neither valid JSON nor base64-encoded JSON`);
+        }
+        return FirebaseConfig.validateServiceAccount(serviceAccount, source);
+    }
+
+    /**
+     * Checks that a parsed service account key has the fields required to sign in.
+     *
+     * @param serviceAccount - Parsed key
+     * @param source - Where the key comes from, used in error messages
+     * @throws TypeError if `project_id`, `client_email` or `private_key` is missing
+     */
+    public static validateServiceAccount(serviceAccount: Record<string, unknown>, source: string): ServiceAccount {
+        const missing = SERVICE_ACCOUNT_FIELDS.filter(field => typeof serviceAccount?.[field] !== 'string' || !serviceAccount[field]);
+        if (missing.length) {
+            throw new TypeError(`Service account key (${source}) is missing required fields: ${missing.join(', ')}`);
+        }
+        // Keys copied into env vars often carry escaped line breaks
+        const privateKey = (serviceAccount.private_key as string).replace(/\\n/g, '\n');
+        return {...serviceAccount, private_key: privateKey} as ServiceAccount;
+    }
+
+    /**
+     * Reads the service account key of the `file` and `json` credentials modes.
+     *
+     * @returns Project id of the service account, undefined when it is not known
+     */
+    private validateCredentials(issues: IConfigIssue[]): string | undefined {
+        const mode = this.getCredentialsMode();
+        if (mode === 'adc') {
+            return undefined;
+        }
+        const field = mode === 'file' ? 'applicationCredentials' : 'credentialsJson';
+        const source = mode === 'file' ? this.applicationCredentials : this.credentialsJson;
+        if (!source) {
+            issues.push({code: 'unreadable-credentials', severity: 'error', field,
+                message: `Credentials mode "${mode}" requires ${field} to be set`});
+            return undefined;
+        }
+        let content: string;
+        try {
+            content = mode === 'file' ? readFileSync(source, 'utf-8') : source;
+        } catch (error) {
+            issues.push({code: 'unreadable-credentials', severity: 'error', field,
+                message: `Cannot read service account key file ${source}: ${(error as Error).message}`});
+            return undefined;
+        }
+        try {
+            const serviceAccount = FirebaseConfig.parseServiceAccount(content, mode === 'file' ? source : field);
+            return (serviceAccount as Record<string, string>).project_id;
+        } catch (error) {
+            issues.push({code: 'unreadable-credentials', severity: 'error', field, message: (error as Error).message});
+            return undefined;
+        }
+    }
+
+    private static getShardName(databaseUrl: string): string {
+        try {
+            const url = new URL(databaseUrl);
+            return url.searchParams.get('ns') ?? url.hostname.split('.')[0];
+        } catch {
+            return databaseUrl;
+        }
     }
 }
\ No newline at end of file
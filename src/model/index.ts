@@ -1,2 +1,3 @@
+export * from './FirebaseBackupConfig'
 export * from './FirebaseConfig'
 export * from './MigrationInfo'
\ No newline at end of file
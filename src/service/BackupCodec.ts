@@ -0,0 +1,247 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
+import { createReadStream, readFileSync } from 'node:fs';
+import { open } from 'node:fs/promises';
+import { Readable, Transform, pipeline } from 'node:stream';
+import { finished } from 'node:stream/promises';
+import { createGunzip, createGzip, gunzipSync, gzipSync } from 'node:zlib';
+import { FirebaseBackupConfig } from '../model';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const VERSION = 1;
+const MAGIC = Buffer.from('MSRE');
+const HEADER_LENGTH = MAGIC.length + 1 + IV_LENGTH;
+const GZIP_MAGIC = Buffer.from([0x1f, 0x8b]);
+
+/**
+ * How backup content is encoded at rest.
+ */
+export type BackupEncoding = {
+    /** Compress content with gzip */
+    compress?: boolean;
+    /** 256-bit key; content is encrypted with AES-256-GCM when set */
+    key?: Buffer;
+};
+
+/**
+ * Encodes backup content for storage: gzip compression followed by optional
+ * AES-256-GCM encryption.
+ *
+ * Encrypted content starts with a `MSRE` header (version byte and random IV) and ends
+ * with the GCM authentication tag. Decoding detects both layers from their magic bytes,
+ * so restore works regardless of the current compression setting.
+ *
+ * @example
+ * ```typescript
+ * const key = BackupCodec.resolveKey(config.backup);
+ * const stored = BackupCodec.encode(Buffer.from(content), {compress: true, key});
+ * const content = BackupCodec.decode(stored, key).toString('utf-8');
+ * ```
+ */
+export class BackupCodec {
+    /**
+     * Resolves the backup encryption key from configuration.
+     *
+     * The key is taken from `encryptionKey` or read from `encryptionKeyFile`, and must be
+     * 32 bytes given as 64 hex characters, base64 or (key file only) raw bytes.
+     *
+     * @param cfg - Backup configuration
+     * @returns Key or undefined when encryption is not configured
+     * @throws TypeError if the key is not 32 bytes long
+     */
+    static resolveKey(cfg?: FirebaseBackupConfig): Buffer | undefined {
+        if (cfg?.encryptionKey) {
+            return BackupCodec.parseKey(cfg.encryptionKey);
+        }
+        if (cfg?.encryptionKeyFile) {
+            const content = readFileSync(cfg.encryptionKeyFile);
+            return content.length === KEY_LENGTH ? content : BackupCodec.parseKey(content.toString('utf-8'));
+        }
+        return undefined;
+    }
+
+    /**
+     * Checks whether content is compressed or encrypted.
+     *
+     * @param content - Stored backup content
+     */
+    static isEncoded(content: Buffer): boolean {
+        return BackupCodec.isEncrypted(content) || BackupCodec.isCompressed(content);
+    }
+
+    /**
+     * Checks whether content is encrypted.
+     *
+     * @param content - Stored backup content
+     */
+    static isEncrypted(content: Buffer): boolean {
+        return content.subarray(0, MAGIC.length).equals(MAGIC);
+    }
+
+    /**
+     * Checks whether content is gzip-compressed.
+     *
+     * @param content - Stored backup content
+     */
+    static isCompressed(content: Buffer): boolean {
+        return content.subarray(0, GZIP_MAGIC.length).equals(GZIP_MAGIC);
+    }
+
+    /**
+     * Encodes backup content.
+     *
+     * @param content - Plain backup content
+     * @param encoding - Compression and encryption settings
+     * @returns Encoded content
+     */
+    static encode(content: Buffer, encoding: BackupEncoding): Buffer {
+        let encoded = encoding.compress ? gzipSync(content) : content;
+        if (encoding.key) {
+            const iv = randomBytes(IV_LENGTH);
+            const cipher = createCipheriv(ALGORITHM, encoding.key, iv);
+            encoded = Buffer.concat([BackupCodec.header(iv), cipher.update(encoded), cipher.final(), cipher.getAuthTag()]);
+        }
+        return encoded;
+    }
+
+    /**
+     * Decodes backup content, detecting encryption and compression.
+     *
+     * @param content - Stored backup content
+     * @param key - Encryption key (required for encrypted content)
+     * @returns Plain backup content
+     * @throws TypeError if the content is encrypted and no key is given
+     * @throws Error if the content cannot be decrypted with the given key
+     */
+    static decode(content: Buffer, key?: Buffer): Buffer {
+        let decoded = content;
+        if (BackupCodec.isEncrypted(decoded)) {
+            const decipher = BackupCodec.createDecipher(decoded.subarray(0, HEADER_LENGTH), key);
+            decipher.setAuthTag(decoded.subarray(decoded.length - TAG_LENGTH));
+            try {
+                decoded = Buffer.concat([decipher.update(decoded.subarray(HEADER_LENGTH, decoded.length - TAG_LENGTH)), decipher.final()]);
+            } catch {
+                throw new Error('Unable to decrypt backup: wrong encryption key or corrupted data');
+            }
+        }
+        return BackupCodec.isCompressed(decoded) ? gunzipSync(decoded) : decoded;
+    }
+
+    /**
+     * Creates the transform streams that encode backup content while it is written.
+     *
+     * @param encoding - Compression and encryption settings
+     * @returns Transforms to pipe the plain content through (empty when no encoding is configured)
+     */
+    static createEncoder(encoding: BackupEncoding): Transform[] {
+        const transforms: Transform[] = [];
+        if (encoding.compress) {
+            transforms.push(createGzip());
+        }
+        if (encoding.key) {
+            const iv = randomBytes(IV_LENGTH);
+            const cipher = createCipheriv(ALGORITHM, encoding.key, iv);
+            let header: Buffer | undefined = BackupCodec.header(iv);
+            const prepend = (chunk: Buffer) => {
+                const data = header ? Buffer.concat([header, chunk]) : chunk;
+                header = undefined;
+                return data;
+            };
+            transforms.push(new Transform({
+                transform(chunk: Buffer, _encoding, callback) {
+                    callback(null, prepend(cipher.update(chunk)));
+                },
+                flush(callback) {
+                    callback(null, Buffer.concat([prepend(cipher.final()), cipher.getAuthTag()]));
+                },
+            }));
+        }
+        return transforms;
+    }
+
+    /**
+     * Opens a stored backup file as a stream of plain content, detecting encryption
+     * and compression.
+     *
+     * Encrypted files are authenticated in a first pass before any plaintext is
+     * released, since AES-GCM only verifies integrity once the whole file was read.
+     *
+     * @param path - Backup file path
+     * @param key - Encryption key (required for encrypted files)
+     * @returns Readable stream of plain backup content
+     * @throws TypeError if the file is encrypted and no key is given
+     * @throws Error if the file cannot be decrypted with the given key
+     */
+    static async createDecoder(path: string, key?: Buffer): Promise<Readable> {
+        const handle = await open(path, 'r');
+        let decrypt: (() => Readable) | undefined;
+        try {
+            const { size } = await handle.stat();
+            const { buffer: header, bytesRead } = await handle.read(Buffer.alloc(HEADER_LENGTH), 0, HEADER_LENGTH, 0);
+            if (BackupCodec.isEncrypted(header.subarray(0, bytesRead))) {
+                const { buffer: tag } = await handle.read(Buffer.alloc(TAG_LENGTH), 0, TAG_LENGTH, size - TAG_LENGTH);
+                decrypt = () => {
+                    const decipher = BackupCodec.createDecipher(header, key);
+                    decipher.setAuthTag(tag);
+                    return pipeline(createReadStream(path, {start: HEADER_LENGTH, end: size - TAG_LENGTH - 1}), decipher, () => undefined);
+                };
+            }
+        } finally {
+            await handle.close();
+        }
+
+        if (!decrypt) {
+            return BackupCodec.gunzipIfCompressed(createReadStream(path));
+        }
+        try {
+            // Read through once, discarding plaintext, so the authentication tag gets verified
+            await finished(decrypt().resume());
+        } catch (error) {
+            if (error instanceof TypeError) {
+                throw error;
+            }
+            throw new Error('Unable to decrypt backup: wrong encryption key or corrupted data');
+        }
+        return BackupCodec.gunzipIfCompressed(decrypt());
+    }
+
+    private static parseKey(value: string): Buffer {
+        const text = value.trim();
+        const key = /^[0-9a-f]{64}$/i.test(text) ? Buffer.from(text, 'hex') : Buffer.from(text, 'base64');
+        if (key.length !== KEY_LENGTH) {
+            throw new TypeError('Backup encryption key must be 32 bytes (64 hex characters or base64)');
+        }
+        return key;
+    }
+
+    private static header(iv: Buffer): Buffer {
+        return Buffer.concat([MAGIC, Buffer.from([VERSION]), iv]);
+    }
+
+    private static createDecipher(header: Buffer, key?: Buffer) {
+        if (!key) {
+            throw new TypeError('Backup is encrypted but no encryption key is configured (backup.encryptionKey or backup.encryptionKeyFile)');
+        }
+        return createDecipheriv(ALGORITHM, key, header.subarray(MAGIC.length + 1, HEADER_LENGTH));
+    }
+
+    /**
+     * Peeks at the first chunk of a stream and pipes it through gunzip when it is compressed.
+     */
+    private static async gunzipIfCompressed(stream: Readable): Promise<Readable> {
+        const iterator: AsyncIterator<Buffer> = stream[Symbol.asyncIterator]();
+        const first = await iterator.next();
+        if (first.done) {
+            return Readable.from([]);
+        }
+        const rest = Readable.from((async function* () {
+            yield first.value;
+            for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+                yield next.value;
+            }
+        })());
+        return BackupCodec.isCompressed(first.value) ? pipeline(rest, createGunzip(), () => undefined) : rest;
+    }
+}
@@ -0,0 +1,75 @@
+import { IBackupManifest, IBackupPrunePlan } from '../interface';
+import { FirebaseBackupConfig } from '../model';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Retention rules applied when pruning persisted backups.
+ */
+export type BackupRetentionPolicy = Partial<Pick<FirebaseBackupConfig, 'keepLast' | 'keepDays' | 'keepPerVersion'>>;
+
+/**
+ * Selects which persisted backups to keep and which to prune.
+ *
+ * A backup is kept when any configured rule retains it:
+ * - `keepLast` - it is one of the N most recent backups
+ * - `keepDays` - it was created within the last N days
+ * - `keepPerVersion` - it is the most recent backup of its migration version
+ *
+ * When no rule is configured every backup is kept.
+ *
+ * @example
+ * ```typescript
+ * const plan = BackupRetention.select(await storage.list(), {keepLast: 5, keepPerVersion: true});
+ * plan.prune.forEach(manifest => console.log('would delete', manifest.id));
+ * ```
+ */
+export class BackupRetention {
+    /**
+     * Checks whether at least one retention rule is configured.
+     *
+     * @param policy - Retention rules
+     */
+    static isConfigured(policy: BackupRetentionPolicy): boolean {
+        return policy.keepLast !== undefined || policy.keepDays !== undefined || !!policy.keepPerVersion;
+    }
+
+    /**
+     * Applies the retention rules to a list of backups.
+     *
+     * @param manifests - Manifests of the persisted backups, in any order
+     * @param policy - Retention rules
+     * @param now - Reference time for `keepDays` (default: now)
+     * @returns Backups to keep and to prune, newest first
+     * @throws RangeError if `keepLast` is not a non-negative integer or `keepDays` is negative
+     */
+    static select(manifests: IBackupManifest[], policy: BackupRetentionPolicy, now: number = Date.now()): IBackupPrunePlan {
+        BackupRetention.validate(policy);
+
+        const sorted = [...manifests].sort((a, b) => b.timestamp - a.timestamp);
+        if (!BackupRetention.isConfigured(policy)) {
+            return {keep: sorted, prune: []};
+        }
+
+        const versions = new Set<number | null>();
+        const plan: IBackupPrunePlan = {keep: [], prune: []};
+        sorted.forEach((manifest, index) => {
+            const version = manifest.migrationVersion ?? null;
+            const retained = (policy.keepLast !== undefined && index < policy.keepLast)
+                || (policy.keepDays !== undefined && manifest.timestamp >= now - policy.keepDays * DAY)
+                || (!!policy.keepPerVersion && !versions.has(version));
+            versions.add(version);
+            (retained ? plan.keep : plan.prune).push(manifest);
+        });
+        return plan;
+    }
+
+    private static validate(policy: BackupRetentionPolicy): void {
+        if (policy.keepLast !== undefined && !(Number.isInteger(policy.keepLast) && policy.keepLast >= 0)) {
+            throw new RangeError(`backup.keepLast must be a non-negative integer, got ${policy.keepLast}`);
+        }
+        if (policy.keepDays !== undefined && !(Number.isFinite(policy.keepDays) && policy.keepDays >= 0)) {
+            throw new RangeError(`backup.keepDays must be a non-negative number, got ${policy.keepDays}`);
+        }
+    }
+}
@@ -1,74 +1,1163 @@
-import { IBackupService } from '@migration-script-runner/core';
-import { database } from 'firebase-admin';
+import { IBackupService, ILogger, SilentLogger } from '@migration-script-runner/core';
+import { createHash } from 'node:crypto';
+import { AppOptions, credential, database } from 'firebase-admin';
+import { FirebaseConfig } from '../model';
+import { IBackupDiff, IBackupManifest, IBackupPrunePlan, IBackupVerification, IRestoreCheckpoint, IRestoreOptions } from '../interface';
+import { BackupCodec, BackupEncoding } from './BackupCodec';
+import { BackupRetention } from './BackupRetention';
+import { BackupManifestMeta, BackupStorage } from './BackupStorage';
+import { MigrationScriptService } from './MigrationScriptService';
+import { RestoreBatcher } from './RestoreBatcher';
 
 /**
  * Firebase Realtime Database backup service.
  *
  * Implements content-based backup by serializing Firebase data to JSON.
- * Supports backing up all nodes or specific filtered nodes.
+ * The backup scope is derived from {@link FirebaseConfig}: when a `shift` is configured
+ * only that environment subtree is backed up and restored, so sibling shifts
+ * (e.g. `production` next to `staging`) are never touched.
+ *
+ * Node selection comes from `cfg.backup.nodes` and `cfg.backup.excludeNodes`.
+ * Excluded nodes are neither stored in the backup nor overwritten on restore.
+ *
+ * When `cfg.backup.directory` is set, every backup is also written to disk as a
+ * timestamped file with a manifest, and `backup()` returns the backup id instead of
+ * the content. `restore()` accepts either the content, a backup id or a file path,
+ * so a backup survives a crash of the migration process.
+ *
+ * With `cfg.backup.streaming` enabled, the backup pages through children with
+ * `orderByKey().startAfter().limitToFirst()` and writes NDJSON records to disk
+ * incrementally, so databases larger than the Node.js heap can be backed up.
+ * Without `cfg.backup.nodes`, each top-level collection of the shift is paged through
+ * on its own. Every paged child still has to fit in memory on its own.
+ *
+ * A backup can be restored into a different shift with the `targetShift` option:
+ * node paths are rewritten from the backup's source shift to the target shift,
+ * and a non-empty target is only overwritten when `force` is set.
+ *
+ * `diff()` compares a backup with the live data without writing anything, to show
+ * which paths a restore would add, remove or change.
+ *
+ * `verify()` re-reads a persisted backup, checks it against its manifest checksum and
+ * validates its keys, optionally reporting nodes that drifted from the live data since.
+ *
+ * With `cfg.backup.lossless` enabled, data is read with `exportVal()` so `.priority`
+ * values survive a backup/restore round trip; restore writes them back as they are.
+ *
+ * Backups are gzip-compressed with `cfg.backup.compress` and AES-256-GCM encrypted
+ * when an encryption key is configured. Without a backup directory, encoded content
+ * is returned base64-encoded. Compression and encryption are detected on restore.
+ *
+ * Restores stay within Firebase write size limits: nodes larger than
+ * `cfg.backup.maxBatchSize` bytes are split into batched multi-path updates.
+ * Progress is reported through the logger after every committed batch and recorded
+ * in a checkpoint, so restoring the same backup again after an interruption resumes
+ * from the last committed batch.
+ *
+ * Persisted backups are kept until pruned: `pruneBackups()` deletes the backups
+ * that none of the retention rules (`keepLast`, `keepDays`, `keepPerVersion`) retain.
+ *
+ * @example
+ * ```typescript
+ * const cfg = new FirebaseConfig();
+ * cfg.shift = 'staging';
+ *
+ * // Backs up /staging only
+ * const backupService = new BackupService(db, cfg);
+ *
+ * // Backs up /staging/users and /staging/posts, skipping /staging/users/analytics
+ * cfg.backup.nodes = ['users', 'posts'];
+ * cfg.backup.excludeNodes = ['users/analytics'];
+ * const selective = new BackupService(db, cfg);
+ * ```
  */
 export class BackupService implements IBackupService {
     static NODES = {
-        ALL: ['/'],
-        SELECTED: [
-            // FILTERED NODES HERE
-        ]
+        ALL: ['/']
     };
 
+    static DEFAULT_PAGE_SIZE = 1000;
+
+    static DEFAULT_MAX_BATCH_SIZE = 1024 * 1024;
+
     private lastBackup?: string;
+    private checkpoint?: IRestoreCheckpoint;
+    private readonly nodes: string[];
+    private readonly excludeNodes: string[];
+    private readonly storage?: BackupStorage;
+    private readonly encoding: BackupEncoding;
 
+    /**
+     * Creates a new BackupService instance.
+     *
+     * @param db - Firebase Realtime Database instance
+     * @param cfg - Firebase configuration used to resolve the backup scope and node selection
+     * @param logger - Logger receiving restore progress (default: silent)
+     */
     constructor(
         private readonly db: database.Database,
-        private readonly nodes = BackupService.NODES.ALL
-    ) {}
+        private readonly cfg: FirebaseConfig,
+        private readonly logger: ILogger = new SilentLogger()
+    ) {
+        const nodes = cfg.backup?.nodes ?? [];
+        this.nodes = nodes.length
+            ? nodes.map(node => this.resolvePath(node))
+            : [this.getScope()];
+        this.excludeNodes = (cfg.backup?.excludeNodes ?? []).map(node => this.resolvePath(node));
+        this.encoding = {compress: cfg.backup?.compress, key: BackupCodec.resolveKey(cfg.backup)};
+        if (cfg.backup?.directory) {
+            this.storage = new BackupStorage(cfg.backup.directory, this.encoding);
+        } else if (cfg.backup?.streaming) {
+            throw new TypeError('Streaming backups require backup.directory to be configured');
+        }
+    }
+
+    /**
+     * Gets the node paths covered by this backup service.
+     *
+     * @returns Absolute node paths (shift prefix included)
+     */
+    getNodes(): string[] {
+        return [...this.nodes];
+    }
+
+    /**
+     * Gets the node paths skipped by this backup service.
+     *
+     * @returns Absolute node paths (shift prefix included)
+     */
+    getExcludedNodes(): string[] {
+        return [...this.excludeNodes];
+    }
 
     private async getData(): Promise<Record<string, unknown>> {
         const data = await Promise.all(this.nodes.map(node => this.db.ref(node).once('value')));
         const obj: Record<string, unknown> = {};
         return this.nodes.reduce((acc, name, index) => {
-            acc[name] = data[index].val();
-            return acc;
+            return Object.assign(acc, exclude(name, this.read(data[index]), this.excludeNodes));
         }, obj);
     }
 
-    private async saveData(data: Record<string, unknown>): Promise<void> {
-        const tasks = Object.keys(data).map((node: string) => {
-            const ref = this.db.ref(node);
-            const value = data[node];
-            return ref.set(value);
+    /**
+     * Gets the entries a JSON backup restores, once excluded nodes are removed.
+     *
+     * @throws RangeError if the backup contains nodes outside of the configured shift
+     */
+    private getEntries(backup: Record<string, unknown>): Record<string, unknown> {
+        this.assertInScope(Object.keys(backup));
+        const data: Record<string, unknown> = {};
+        for (const node of Object.keys(backup)) {
+            Object.assign(data, exclude(normalize(node), backup[node], this.excludeNodes));
+        }
+        return data;
+    }
+
+    private async saveData(backup: Record<string, unknown>, batcher: RestoreBatcher): Promise<void> {
+        for (const [node, value] of Object.entries(this.getEntries(backup))) {
+            await batcher.set(node, value);
+        }
+    }
+
+    /**
+     * Resolves a node path relative to the configured shift.
+     */
+    private resolvePath(node: string): string {
+        return this.cfg.buildPath(node);
+    }
+
+    /**
+     * Gets the subtree this service is allowed to back up and restore.
+     */
+    private getScope(): string {
+        return this.cfg.getRoot();
+    }
+
+    /**
+     * Ensures that every node of a backup lies within the configured shift subtree.
+     *
+     * @throws RangeError if a node points outside of the shift subtree
+     */
+    private assertInScope(nodes: string[]): void {
+        const scope = this.getScope();
+        const outside = nodes.filter(node => !isWithin(normalize(node), scope));
+        if (outside.length) {
+            throw new RangeError(`Backup contains nodes outside of the configured scope "${scope}": ${outside.join(', ')}`);
+        }
+    }
+
+    /**
+     * Gets the timestamp of the last applied migration.
+     */
+    private async getMigrationVersion(): Promise<number | null> {
+        const mss = new MigrationScriptService(this.db, this.cfg.buildPath(this.cfg.tableName));
+        const executed = await mss.getAllExecuted();
+        return executed.reduce<number | null>((latest, script) => {
+            return typeof script.timestamp === 'number' && (latest === null || script.timestamp > latest)
+                ? script.timestamp
+                : latest;
+        }, null);
+    }
+
+    /**
+     * Collects manifest fields describing the backup origin.
+     */
+    private async getManifestMeta(timestamp: number): Promise<BackupManifestMeta> {
+        return {
+            timestamp,
+            createdAt: new Date(timestamp).toISOString(),
+            shift: this.getShiftRoot(),
+            databaseUrl: this.cfg.getDatabaseUrl() ?? null,
+            nodes: this.nodes,
+            migrationVersion: await this.getMigrationVersion(),
+        };
+    }
+
+    private getPageSize(): number {
+        return this.cfg.backup?.pageSize || BackupService.DEFAULT_PAGE_SIZE;
+    }
+
+    private getMaxBatchSize(): number {
+        return this.cfg.backup?.maxBatchSize || BackupService.DEFAULT_MAX_BATCH_SIZE;
+    }
+
+    private async getCheckpoint(): Promise<IRestoreCheckpoint | undefined> {
+        return this.storage ? this.storage.getCheckpoint() : this.checkpoint;
+    }
+
+    private async saveCheckpoint(checkpoint: IRestoreCheckpoint): Promise<void> {
+        if (this.storage) {
+            await this.storage.saveCheckpoint(checkpoint);
+        } else {
+            this.checkpoint = checkpoint;
+        }
+    }
+
+    private async clearCheckpoint(): Promise<void> {
+        this.checkpoint = undefined;
+        await this.storage?.clearCheckpoint();
+    }
+
+    /**
+     * Runs a restore in write batches, resuming after the last batch committed
+     * by a previous run of the same backup with the same batching settings.
+     *
+     * @param backup - Identity of the backup being restored
+     * @param write - Callback issuing the restore writes through the batcher
+     */
+    private async writeBatches(backup: string, write: (batcher: RestoreBatcher) => Promise<void>): Promise<void> {
+        const settings = {maxBatchSize: this.getMaxBatchSize(), maxBatchPaths: this.getPageSize(), excludeNodes: this.excludeNodes};
+        const checkpoint = await this.getCheckpoint();
+        let skip = 0;
+        if (checkpoint?.backup === backup) {
+            // Batch boundaries shift when the batching settings change, so batch numbers would no longer match
+            const unchanged = checkpoint.maxBatchSize === settings.maxBatchSize
+                && checkpoint.maxBatchPaths === settings.maxBatchPaths
+                && JSON.stringify(checkpoint.excludeNodes) === JSON.stringify(settings.excludeNodes);
+            skip = unchanged ? checkpoint.batches : 0;
+            this.logger.info(unchanged
+                ? `Resuming restore after batch ${skip}`
+                : 'Batching settings changed since the interrupted restore, restarting from the first batch');
+        }
+
+        const batcher = new RestoreBatcher(this.db, {
+            maxBatchSize: settings.maxBatchSize,
+            maxBatchPaths: settings.maxBatchPaths,
+            skip,
+            onCommit: async (batch, paths, bytes) => {
+                await this.saveCheckpoint({backup, batches: batch, ...settings, updatedAt: new Date().toISOString()});
+                this.logger.info(`Restore batch ${batch} committed (${paths} paths, ${bytes} bytes)`);
+            },
         });
-        await Promise.all(tasks);
+        await write(batcher);
+        await batcher.flush();
+
+        await this.clearCheckpoint();
+        this.logger.info(`Restore completed in ${batcher.count} batches`);
+    }
+
+    /**
+     * Iterates over the children of a node page by page, ordered by key.
+     */
+    private async* pageChildren(path: string): AsyncGenerator<[string, unknown]> {
+        const pageSize = this.getPageSize();
+        let lastKey: string | undefined;
+        for (;;) {
+            const ordered = this.db.ref(path).orderByKey();
+            const query = lastKey === undefined ? ordered : ordered.startAfter(lastKey);
+            const snapshot = await query.limitToFirst(pageSize).once('value');
+
+            const children: [string, unknown][] = [];
+            snapshot.forEach(child => {
+                children.push([child.key as string, this.read(child)]);
+            });
+            yield* children;
+
+            if (children.length < pageSize) {
+                return;
+            }
+            lastKey = children[children.length - 1][0];
+        }
+    }
+
+    /**
+     * Lists the child keys of a node without reading their values, using a shallow
+     * REST query authenticated with the credential of the Firebase app. Apps initialized
+     * without an explicit credential fall back to the application default credentials,
+     * and the emulator is accessed with its `owner` token like the Admin SDK does.
+     *
+     * @throws Error if no credential can issue an access token or the database rejects the request
+     */
+    private async listKeys(path: string): Promise<string[]> {
+        const location = this.db.ref(path).toString();
+        const origin = new URL(this.cfg.getDatabaseUrl() ?? location);
+        const url = new URL(`${location}.json`);
+        url.searchParams.set('shallow', 'true');
+        url.searchParams.set('ns', origin.searchParams.get('ns')
+            ?? (origin.protocol === 'http:' ? 'default' : origin.hostname.split('.')[0]));
+
+        const options = this.db.app?.options as AppOptions | undefined;
+        if (options?.databaseAuthVariableOverride !== undefined) {
+            url.searchParams.set('auth_variable_override', JSON.stringify(options.databaseAuthVariableOverride));
+        }
+        const token = url.protocol === 'http:' ? EMULATOR_TOKEN : await this.getAccessToken(path, options);
+        const response = await fetch(url, {headers: {Authorization: `Bearer ${token}`}});
+        if (!response.ok) {
+            throw new Error(`Unable to list the children of "${path}": ${response.status} ${response.statusText}`);
+        }
+        const children = await response.json() as Record<string, unknown> | null;
+        return Object.keys(children ?? {}).filter(key => !isMeta(key)).sort();
+    }
+
+    private async getAccessToken(path: string, options?: AppOptions): Promise<string> {
+        try {
+            const token = await (options?.credential ?? credential.applicationDefault()).getAccessToken();
+            return token.access_token;
+        } catch (error) {
+            throw new Error(`Unable to list the children of "${path}": no access token from the app credential `
+                + `or the application default credentials (${(error as Error).message})`);
+        }
+    }
+
+    /**
+     * Writes NDJSON records for every configured node: a `{node}` marker followed by
+     * one `{path, value}` record per child.
+     *
+     * Without `cfg.backup.nodes` the whole shift is one node, so its top-level
+     * collections are listed and paged one by one instead of being read whole.
+     */
+    private async streamData(write: (line: string) => Promise<void>): Promise<void> {
+        const collections = !this.cfg.backup?.nodes?.length;
+        for (const node of this.nodes) {
+            await write(JSON.stringify({node}));
+            if (!collections) {
+                await this.streamChildren(node, write);
+                continue;
+            }
+            for (const key of await this.listKeys(node)) {
+                await this.streamChildren(join(node, key), write);
+            }
+        }
+    }
+
+    /**
+     * Writes one `{path, value}` record per child of a node, or a single record
+     * for a leaf value.
+     */
+    private async streamChildren(node: string, write: (line: string) => Promise<void>): Promise<void> {
+        if (this.excludeNodes.some(excluded => isWithin(node, excluded))) {
+            return;
+        }
+
+        let empty = true;
+        for await (const [key, value] of this.pageChildren(node)) {
+            empty = false;
+            for (const [path, entry] of Object.entries(exclude(join(node, key), value, this.excludeNodes))) {
+                await write(JSON.stringify({path, value: entry}));
+            }
+        }
+
+        if (empty) {
+            // Leaf values have no children to page through
+            const value = this.read(await this.db.ref(node).once('value'));
+            if (value !== null) {
+                await write(JSON.stringify({path: node, value}));
+            }
+        }
+    }
+
+    /**
+     * Restores NDJSON records, replacing each node and writing its children
+     * in batched multi-path updates.
+     */
+    private async restoreStream(lines: AsyncIterable<string>, batcher: RestoreBatcher): Promise<void> {
+        for await (const line of lines) {
+            const record = JSON.parse(line) as BackupRecord;
+            if ('node' in record) {
+                this.assertInScope([record.node]);
+                await batcher.run(() => this.clear(normalize(record.node)));
+                continue;
+            }
+
+            this.assertInScope([record.path]);
+            for (const [path, value] of Object.entries(exclude(normalize(record.path), record.value, this.excludeNodes))) {
+                await batcher.update(path, value);
+            }
+        }
+    }
+
+    /**
+     * Compares NDJSON records with live data. Live children of a node without a
+     * record in the backup are reported as removed, since restore clears the node first.
+     * Records nested deeper than the children of a node (collections of a whole-shift
+     * backup, children split around excluded nodes) are matched level by level.
+     */
+    private async diffStream(lines: AsyncIterable<string>, diff: IBackupDiff): Promise<void> {
+        let node: string | undefined;
+        // Paths restored by a record, and the ancestors of records nested below the children of the node
+        let covered = new Set<string>();
+        let nested = new Set<string>();
+
+        const compareRemaining = async (path: string): Promise<void> => {
+            if (covered.has(path)) {
+                return;
+            }
+            if (![...nested].some(ancestor => ancestor !== path && isWithin(ancestor, path))) {
+                // Every record is a direct child of the path
+                let empty = true;
+                for await (const [key, value] of this.pageChildren(path)) {
+                    empty = false;
+                    if (!covered.has(join(path, key))) {
+                        compare(join(path, key), null, value, this.excludeNodes, diff);
+                    }
+                }
+                if (empty && path === node) {
+                    compare(path, null, this.read(await this.db.ref(path).once('value')), this.excludeNodes, diff);
+                }
+                return;
+            }
+
+            for (const key of await this.listKeys(path)) {
+                const child = join(path, key);
+                if (nested.has(child)) {
+                    await compareRemaining(child);
+                } else if (!covered.has(child) && !this.excludeNodes.some(excluded => isWithin(child, excluded))) {
+                    compare(child, null, this.read(await this.db.ref(child).once('value')), this.excludeNodes, diff);
+                }
+            }
+        };
+
+        for await (const line of lines) {
+            const record = JSON.parse(line) as BackupRecord;
+            if ('node' in record) {
+                if (node !== undefined) {
+                    await compareRemaining(node);
+                }
+                this.assertInScope([record.node]);
+                node = normalize(record.node);
+                covered = new Set();
+                nested = new Set();
+                continue;
+            }
+
+            this.assertInScope([record.path]);
+            const path = normalize(record.path);
+            if (node !== undefined && isWithin(path, node)) {
+                covered.add(path);
+                for (let parent = path.slice(0, path.lastIndexOf('/')); parent.length > node.length; parent = parent.slice(0, parent.lastIndexOf('/'))) {
+                    nested.add(parent);
+                }
+            }
+            for (const [entry, value] of Object.entries(exclude(path, record.value, this.excludeNodes))) {
+                await this.compareLive(entry, value, diff);
+            }
+        }
+        if (node !== undefined) {
+            await compareRemaining(node);
+        }
+    }
+
+    private async compareLive(path: string, value: unknown, diff: IBackupDiff): Promise<void> {
+        const live = this.read(await this.db.ref(path).once('value'));
+        compare(path, value, live, this.excludeNodes, diff);
+    }
+
+    /**
+     * Reads a snapshot value, including `.priority` metadata in lossless mode.
+     */
+    private read(snapshot: database.DataSnapshot): unknown {
+        return this.cfg.backup?.lossless ? snapshot.exportVal() : snapshot.val();
+    }
+
+    /**
+     * Removes a node, keeping excluded descendants intact.
+     */
+    private async clear(path: string): Promise<void> {
+        if (this.excludeNodes.some(excluded => isWithin(path, excluded))) {
+            return;
+        }
+        if (!this.excludeNodes.some(excluded => isWithin(excluded, path))) {
+            await this.db.ref(path).remove();
+            return;
+        }
+
+        const keys: string[] = [];
+        for await (const [key] of this.pageChildren(path)) {
+            keys.push(key);
+        }
+        for (const key of keys) {
+            await this.clear(join(path, key));
+        }
     }
 
     /**
      * Creates a backup of Firebase Realtime Database.
      *
-     * @returns Promise resolving to serialized JSON backup content
+     * @returns Promise resolving to serialized JSON backup content,
+     *          or to the backup id when `backup.directory` is configured
      */
     async backup(): Promise<string> {
+        const timestamp = Date.now();
+
+        if (this.storage && this.cfg.backup?.streaming) {
+            const meta = await this.getManifestMeta(timestamp);
+            const manifest = await this.storage.saveStream(BackupStorage.generateId(timestamp), meta,
+                write => this.streamData(write));
+            this.lastBackup = manifest.id;
+            return this.lastBackup;
+        }
+
         const data = await this.getData();
-        this.lastBackup = JSON.stringify(data, null, '  ');
+        const content = JSON.stringify(data, null, '  ');
+        if (this.storage) {
+            this.lastBackup = (await this.storage.save(BackupStorage.generateId(timestamp), content, await this.getManifestMeta(timestamp))).id;
+        } else if (this.encoding.compress || this.encoding.key) {
+            this.lastBackup = BackupCodec.encode(Buffer.from(content), this.encoding).toString('base64');
+        } else {
+            this.lastBackup = content;
+        }
         return this.lastBackup;
     }
 
     /**
      * Restores Firebase Realtime Database from backup.
      *
-     * @param backupPath - Optional backup content (JSON string). If not provided, uses last backup.
-     * @throws ReferenceError if no backup data available
+     * Only nodes within the configured shift subtree are restored.
+     * Streaming (NDJSON) backups are restored line by line.
+     * If a previous restore of the same backup was interrupted, it is resumed
+     * after the last committed batch.
+     *
+     * @param backupPath - Optional backup content (JSON string or base64 of encoded content), backup id
+     *                     or path to a backup/manifest file. If not provided, uses last backup.
+     * @param options - Optional target shift to restore into
+     * @throws ReferenceError if no backup data available or the backup cannot be found
+     * @throws RangeError if the backup contains nodes outside of the configured (or source) shift
+     * @throws TypeError if the backup is encrypted and no encryption key is configured
+     * @throws Error if the target shift is not empty and `force` is not set
+     *
+     * @example
+     * ```typescript
+     * // Clone a production backup into a developer shift
+     * await backupService.restore(backupId, {targetShift: 'dev-alice', force: true});
+     * ```
+     */
+    async restore(backupPath?: string, options: IRestoreOptions = {}): Promise<void> {
+        const backup = await this.openBackup(backupPath);
+        if (options.targetShift === undefined) {
+            await this.writeBackup(backup);
+            return;
+        }
+
+        const target = this.forShift(options.targetShift);
+        if (!options.force) {
+            await target.assertEmpty();
+        }
+        await target.writeBackup(this.rebase(backup, target));
+    }
+
+    private async writeBackup(backup: OpenedBackup): Promise<void> {
+        await this.writeBatches(backup.id, batcher => 'data' in backup
+            ? this.saveData(backup.data, batcher)
+            : this.restoreStream(backup.lines, batcher));
+    }
+
+    /**
+     * Compares a backup with the live data without writing anything.
+     *
+     * Reports the paths a restore of the backup would add, remove and change,
+     * honouring the configured shift and excluded nodes.
+     *
+     * @param backupPath - Optional backup content, backup id or path (see {@link restore}).
+     *                     If not provided, uses last backup.
+     * @param options - Optional target shift to compare against
+     * @returns Added, removed and changed paths with their counts
+     * @throws ReferenceError if no backup data available or the backup cannot be found
+     * @throws RangeError if the backup contains nodes outside of the configured shift
+     *
+     * @example
+     * ```typescript
+     * const diff = await backupService.diff(backupId);
+     * console.log(`${diff.counts.removed} paths would be deleted`);
+     * ```
      */
-    async restore(backupPath?: string): Promise<void> {
+    async diff(backupPath?: string, options: Pick<IRestoreOptions, 'targetShift'> = {}): Promise<IBackupDiff> {
+        const backup = await this.openBackup(backupPath);
+        if (options.targetShift !== undefined) {
+            const target = this.forShift(options.targetShift);
+            return target.compareBackup(this.rebase(backup, target));
+        }
+        return this.compareBackup(backup);
+    }
+
+    private async compareBackup(backup: OpenedBackup): Promise<IBackupDiff> {
+        const diff: IBackupDiff = {added: [], removed: [], changed: [], counts: {added: 0, removed: 0, changed: 0}};
+
+        if ('data' in backup) {
+            for (const [path, value] of Object.entries(this.getEntries(backup.data))) {
+                await this.compareLive(path, value, diff);
+            }
+        } else {
+            await this.diffStream(backup.lines, diff);
+        }
+
+        diff.counts = {added: diff.added.length, removed: diff.removed.length, changed: diff.changed.length};
+        return diff;
+    }
+
+    /**
+     * Verifies a persisted backup without restoring it.
+     *
+     * Re-reads the stored file and compares it with the manifest checksum, decodes and
+     * parses the content and checks that every key is legal in the Realtime Database.
+     * With `live`, every child of a backed-up node is hashed and compared with the live
+     * data to report drift since the backup was taken.
+     *
+     * @param backupId - Backup id or path to a backup/manifest file
+     * @param options - With `live`, also compares node hashes with the live database
+     * @returns Verification result; problems are reported in `errors`, not thrown
+     * @throws ReferenceError if the backup cannot be found
+     *
+     * @example
+     * ```typescript
+     * const result = await backupService.verify(backupId, {live: true});
+     * if (!result.valid) {
+     *     console.error(result.errors);
+     * }
+     * ```
+     */
+    async verify(backupId: string, options: { live?: boolean } = {}): Promise<IBackupVerification> {
+        const storage = this.storage ?? new BackupStorage('.', this.encoding);
+        const { manifest } = await storage.locate(backupId);
+        const verification: IBackupVerification = {id: manifest?.id ?? backupId, valid: false, checksum: null, nodes: 0, errors: []};
+
+        try {
+            verification.checksum = await storage.verifyChecksum(backupId);
+        } catch (error) {
+            verification.checksum = false;
+            verification.errors.push(error instanceof Error ? error.message : String(error));
+        }
+        if (verification.checksum === false && !verification.errors.length) {
+            verification.errors.push(`Backup file does not match the manifest checksum (${manifest?.sha256})`);
+        }
+
+        // Backed-up node -> hash of the restore entries of each of its children
+        const hashes = new Map<string, Map<string, string>>();
+        const getHashes = (node: string) => hashes.get(node) ?? hashes.set(node, new Map()).get(node) as Map<string, string>;
+        // Children whose entries arrive in several records nested below them
+        const nested = new Set<string>();
+        let current: { node: string, path: string, digest: Buffer } | undefined;
+        const commit = () => {
+            if (current) {
+                getHashes(current.node).set(current.path, current.digest.toString('hex'));
+                verification.nodes++;
+                current = undefined;
+            }
+        };
+        // Entries of one child arrive in consecutive records, so only the hash of the current child is kept
+        const add = (node: string, path: string, entries: Record<string, unknown>) => {
+            if (current?.path !== path) {
+                commit();
+                current = {node, path, digest: Buffer.alloc(32)};
+            }
+            hashLeaves(entries, current.digest);
+        };
+
+        try {
+            let node: string | undefined;
+            for await (const record of readRecords(await this.openBackup(backupId))) {
+                if ('node' in record) {
+                    commit();
+                    validatePath(record.node, undefined, verification.errors);
+                    node = normalize(record.node);
+                    getHashes(node);
+                    continue;
+                }
+
+                validatePath(record.path, record.value, verification.errors);
+                const path = normalize(record.path);
+                if (node !== undefined && path !== node && isWithin(path, node)) {
+                    // A child, or part of a collection paged record by record or split around excluded nodes
+                    const child = join(node, path.slice(node.length).split('/').filter(Boolean)[0]);
+                    if (path !== child) {
+                        nested.add(child);
+                    }
+                    add(node, child, {[path]: record.value});
+                } else if (path === node && isBranch(record.value)) {
+                    for (const [key, child] of Object.entries(record.value).filter(([key]) => !isMeta(key))) {
+                        add(node, join(node, key), exclude(join(node, key), child, this.excludeNodes));
+                    }
+                } else {
+                    add(node ?? path, path, exclude(path, record.value, this.excludeNodes));
+                }
+            }
+            commit();
+        } catch (error) {
+            verification.errors.push(`Unable to read backup: ${error instanceof Error ? error.message : error}`);
+        }
+
+        verification.valid = verification.errors.length === 0;
+        if (options.live && verification.valid) {
+            verification.drift = await this.detectDrift(hashes, nested);
+        }
+        return verification;
+    }
+
+    /**
+     * Hashes the live children of every backed-up node and reports those that
+     * differ from the backup. Children backed up in nested records are paged
+     * through rather than read whole.
+     */
+    private async detectDrift(hashes: Map<string, Map<string, string>>, nested: Set<string>): Promise<NonNullable<IBackupVerification['drift']>> {
+        const drift: NonNullable<IBackupVerification['drift']> = [];
+        for (const [node, expected] of hashes) {
+            const live = new Map<string, string>();
+            const hashChild = async (path: string, value: () => Promise<unknown>) => {
+                if (this.excludeNodes.some(excluded => isWithin(path, excluded))) {
+                    return;
+                }
+                const digest = Buffer.alloc(32);
+                if (nested.has(path)) {
+                    for await (const [key, child] of this.pageChildren(path)) {
+                        hashLeaves(exclude(join(path, key), child, this.excludeNodes), digest);
+                    }
+                } else {
+                    hashLeaves(exclude(path, await value(), this.excludeNodes), digest);
+                }
+                live.set(path, digest.toString('hex'));
+            };
+
+            let empty = true;
+            if ([...nested].some(path => isWithin(path, node))) {
+                for (const key of await this.listKeys(node)) {
+                    empty = false;
+                    const path = join(node, key);
+                    await hashChild(path, async () => this.read(await this.db.ref(path).once('value')));
+                }
+            } else {
+                for await (const [key, value] of this.pageChildren(node)) {
+                    empty = false;
+                    await hashChild(join(node, key), async () => value);
+                }
+            }
+            if (empty) {
+                const value = this.read(await this.db.ref(node).once('value'));
+                if (value !== null) {
+                    await hashChild(node, async () => value);
+                }
+            }
+
+            for (const path of [...new Set([...expected.keys(), ...live.keys()])].sort()) {
+                const backupHash = expected.get(path) ?? null;
+                const liveHash = live.get(path) ?? null;
+                if (backupHash !== liveHash) {
+                    drift.push({path, backupHash, liveHash});
+                }
+            }
+        }
+        return drift;
+    }
+
+    /**
+     * Opens a backup for reading: parsed data of a JSON backup or the lines of a
+     * streaming backup, along with the backup identity used for restore checkpoints.
+     */
+    private async openBackup(backupPath?: string): Promise<OpenedBackup> {
         const backupData = backupPath ?? this.lastBackup;
         if (!backupData) {
             throw new ReferenceError('No backup data available to restore');
         }
-        await this.saveData(JSON.parse(backupData));
+
+        const content = this.decodeContent(backupData);
+        if (content !== undefined) {
+            return {id: BackupStorage.checksum(backupData), data: JSON.parse(content)};
+        }
+
+        const storage = this.storage ?? new BackupStorage('.', this.encoding);
+        const { path, format, manifest } = await storage.locate(backupData);
+        if (format === 'ndjson') {
+            return {id: manifest?.sha256 ?? path, shift: manifest?.shift, lines: storage.readLines(backupData)};
+        }
+        const { content: stored } = await storage.read(backupData);
+        return {
+            id: manifest?.sha256 ?? BackupStorage.checksum(stored),
+            shift: manifest?.shift,
+            data: JSON.parse(stored.toString('utf-8')),
+        };
+    }
+
+    /**
+     * Creates a backup service for another shift of the same database, sharing
+     * node selection, storage settings and logger.
+     */
+    private forShift(shift: string | null | undefined): BackupService {
+        const cfg = Object.assign(new FirebaseConfig(), this.cfg, {shift: shift || undefined});
+        return new BackupService(this.db, cfg, this.logger);
+    }
+
+    /**
+     * Ensures the shift subtree of this service holds no data.
+     *
+     * @throws Error if the subtree is not empty
+     */
+    private async assertEmpty(): Promise<void> {
+        const scope = this.getScope();
+        const snapshot = await this.db.ref(scope).orderByKey().limitToFirst(1).once('value');
+        if (snapshot.exists()) {
+            throw new Error(`Restore target "${scope}" is not empty. Use force to overwrite it`);
+        }
+    }
+
+    /**
+     * Rewrites the node paths of a backup from its source shift to the shift of the target service.
+     *
+     * The source shift is taken from the backup manifest, falling back to the configured shift.
+     *
+     * @throws RangeError if a node lies outside of the source shift
+     */
+    private rebase(backup: OpenedBackup, target: BackupService): OpenedBackup {
+        const source = backup.shift !== undefined ? this.forShift(backup.shift) : this;
+        const rewrite = (path: string) => target.resolvePath(source.relativize(path));
+        const id = `${backup.id}@${target.getScope()}`;
+
+        if ('data' in backup) {
+            const data: Record<string, unknown> = {};
+            for (const [node, value] of Object.entries(backup.data)) {
+                data[rewrite(node)] = value;
+            }
+            return {id, data};
+        }
+
+        const lines = backup.lines;
+        return {
+            id,
+            lines: (async function* () {
+                for await (const line of lines) {
+                    const record = JSON.parse(line) as BackupRecord;
+                    yield JSON.stringify('node' in record
+                        ? {node: rewrite(record.node)}
+                        : {path: rewrite(record.path), value: record.value});
+                }
+            })(),
+        };
+    }
+
+    /**
+     * Converts an absolute node path to a path relative to the shift of this service.
+     *
+     * @throws RangeError if the path lies outside of the shift
+     */
+    private relativize(path: string): string {
+        const scope = this.getScope();
+        const node = normalize(path);
+        if (!isWithin(node, scope)) {
+            throw new RangeError(`Backup node "${node}" is outside of the source shift "${scope}"`);
+        }
+        return scope === '/' ? node : normalize(node.slice(scope.length));
+    }
+
+    /**
+     * Decodes backup content passed to restore directly.
+     *
+     * @returns JSON content, or undefined if the value is a backup id or path
+     */
+    private decodeContent(backupData: string): string | undefined {
+        if (backupData.trimStart().startsWith('{')) {
+            return backupData;
+        }
+        if (/^[A-Za-z0-9+/=\s]+$/.test(backupData)) {
+            const encoded = Buffer.from(backupData, 'base64');
+            if (BackupCodec.isEncoded(encoded)) {
+                return BackupCodec.decode(encoded, this.encoding.key).toString('utf-8');
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Lists backups persisted in the configured directory, oldest first.
+     *
+     * Only backups taken from the configured shift and database are listed, so a
+     * directory shared by several shifts or shards is never pruned across them.
+     *
+     * @returns Manifests of persisted backups (empty when `backup.directory` is not set)
+     */
+    async listBackups(): Promise<IBackupManifest[]> {
+        if (!this.storage) {
+            return [];
+        }
+        const root = this.cfg.getRoot();
+        const databaseUrl = this.cfg.getDatabaseUrl() ?? null;
+        // `staging`, `/staging` and `staging/` name the same shift
+        return (await this.storage.list())
+            .filter(manifest => FirebaseConfig.normalizePath(manifest.shift ?? undefined) === root
+                && (manifest.databaseUrl ?? null) === databaseUrl);
+    }
+
+    /**
+     * Gets the normalized shift recorded in manifests, null when no shift is configured.
+     */
+    private getShiftRoot(): string | null {
+        const root = this.cfg.getRoot();
+        return root === '/' ? null : root;
+    }
+
+    /**
+     * Applies the retention policy from `cfg.backup` to the persisted backups
+     * without deleting anything.
+     *
+     * @param now - Reference time for `keepDays` (default: now)
+     * @returns Backups to keep and to prune, newest first
+     * @throws RangeError if the retention settings are invalid
+     */
+    async planPrune(now: number = Date.now()): Promise<IBackupPrunePlan> {
+        return BackupRetention.select(await this.listBackups(), this.cfg.backup ?? {}, now);
+    }
+
+    /**
+     * Deletes the persisted backups that the retention policy does not retain.
+     *
+     * Nothing is deleted when no retention rule is configured.
+     *
+     * @param now - Reference time for `keepDays` (default: now)
+     * @returns Backups kept and deleted, newest first
+     * @throws RangeError if the retention settings are invalid
+     */
+    async pruneBackups(now: number = Date.now()): Promise<IBackupPrunePlan> {
+        const plan = await this.planPrune(now);
+        for (const manifest of plan.prune) {
+            await this.storage?.remove(manifest.id);
+            this.logger.info(`Pruned backup ${manifest.id}`);
+        }
+        return plan;
     }
 
     /**
      * Clears the stored backup data from memory.
+     *
+     * Persisted backup files are kept on disk.
      */
     deleteBackup(): void {
         this.lastBackup = undefined;
     }
-}
\ No newline at end of file
+}
+
+// Realtime Database nesting limit
+const MAX_DEPTH = 32;
+
+// The emulator grants admin access to this token
+const EMULATOR_TOKEN = 'owner';
+
+/**
+ * NDJSON record of a streaming backup: a node marker or a child value.
+ */
+type BackupRecord = { node: string } | { path: string, value: unknown };
+
+/**
+ * Backup opened for restore or diff: parsed JSON data or NDJSON lines.
+ */
+type OpenedBackup = { id: string, shift?: string | null } & ({ data: Record<string, unknown> } | { lines: AsyncIterable<string> });
+
+/**
+ * Normalizes a node path to `/a/b` form (root is `/`).
+ */
+function normalize(path: string): string {
+    return `/${path.split('/').filter(Boolean).join('/')}`;
+}
+
+/**
+ * Joins a normalized path with a child key.
+ */
+function join(path: string, key: string): string {
+    return normalize(`${path}/${key}`);
+}
+
+/**
+ * Checks whether a normalized path equals or is nested under a normalized scope.
+ */
+function isWithin(path: string, scope: string): boolean {
+    return scope === '/' || path === scope || path.startsWith(`${scope}/`);
+}
+
+/**
+ * Splits a node into the entries that remain once excluded paths are removed.
+ *
+ * A node without excluded descendants is kept as a single entry. A node that contains
+ * excluded descendants is broken down into its children, so that writing the entries
+ * back never overwrites the excluded subtrees.
+ */
+function exclude(path: string, value: unknown, excludeNodes: string[]): Record<string, unknown> {
+    if (excludeNodes.some(excluded => isWithin(path, excluded))) {
+        return {};
+    }
+    if (!excludeNodes.some(excluded => isWithin(excluded, path))) {
+        return {[path]: value};
+    }
+    if (value === null || typeof value !== 'object') {
+        return value === null ? {} : {[path]: value};
+    }
+    const entries: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+        Object.assign(entries, exclude(join(path, key), child, excludeNodes));
+    }
+    return entries;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === 'object';
+}
+
+/**
+ * Checks whether a value is a node with children, as opposed to a leaf value
+ * (including leaves exported with a priority).
+ */
+function isBranch(value: unknown): value is Record<string, unknown> {
+    return isObject(value) && !('.value' in value);
+}
+
+/**
+ * Checks whether a key holds export metadata rather than a child.
+ */
+function isMeta(key: string): boolean {
+    return key === '.priority' || key === '.value';
+}
+
+/**
+ * Reads the records of an opened backup in NDJSON layout: a `{node}` marker followed by
+ * the node value (JSON backups) or one record per child (streaming backups).
+ */
+async function* readRecords(backup: OpenedBackup): AsyncGenerator<BackupRecord> {
+    if ('data' in backup) {
+        for (const [node, value] of Object.entries(backup.data)) {
+            yield {node};
+            if (value !== null) {
+                yield {path: node, value};
+            }
+        }
+        return;
+    }
+
+    let line = 0;
+    for await (const text of backup.lines) {
+        line++;
+        let record: BackupRecord;
+        try {
+            record = JSON.parse(text);
+        } catch {
+            throw new SyntaxError(`line ${line} is not valid JSON`);
+        }
+        yield record;
+    }
+}
+
+/**
+ * Records every key of a path and its value that the Realtime Database would reject:
+ * empty or longer than 768 bytes, containing `.`, `$`, `#`, `[`, `]`, `/` or control
+ * characters, or nested deeper than 32 levels.
+ */
+function validatePath(path: string, value: unknown, errors: string[]): void {
+    const keys = path.split('/').filter(Boolean);
+    keys.forEach((key, index) => {
+        // Split lossless records may end in a `.priority` key
+        if (!(index === keys.length - 1 && isMeta(key))) {
+            validateKey(`/${keys.slice(0, index).join('/')}`, key, errors);
+        }
+    });
+    validateValue(normalize(path), keys.length, value, errors);
+}
+
+function validateValue(path: string, depth: number, value: unknown, errors: string[]): void {
+    if (depth > MAX_DEPTH) {
+        errors.push(`Path exceeds ${MAX_DEPTH} levels: ${path}`);
+        return;
+    }
+    if (!isObject(value)) {
+        return;
+    }
+    for (const [key, child] of Object.entries(value)) {
+        if (isMeta(key)) {
+            continue;
+        }
+        validateKey(path, key, errors);
+        validateValue(join(path, key), depth + 1, child, errors);
+    }
+}
+
+function validateKey(parent: string, key: string, errors: string[]): void {
+    const issue = FirebaseConfig.checkKey(key);
+    if (issue) {
+        errors.push(`Illegal key "${key}" at ${parent}: ${issue}`);
+    }
+}
+
+/**
+ * Adds the leaf values of entries to a digest by XOR-ing one SHA-256 hash per leaf path,
+ * so the result depends neither on key order nor on how a node is split into entries.
+ */
+function hashLeaves(entries: Record<string, unknown>, digest: Buffer): Buffer {
+    for (const [path, value] of Object.entries(entries)) {
+        if (isObject(value)) {
+            hashLeaves(Object.fromEntries(Object.entries(value).map(([key, child]) => [join(path, key), child])), digest);
+        } else if (value !== null) {
+            const leaf = createHash('sha256').update(`${path}\n${JSON.stringify(value)}`).digest();
+            for (let i = 0; i < digest.length; i++) {
+                digest[i] ^= leaf[i];
+            }
+        }
+    }
+    return digest;
+}
+
+/**
+ * Compares a backup value with the live value at the same path and records the differences.
+ *
+ * Missing subtrees are reported at their root. A subtree that contains excluded nodes
+ * is compared child by child, so excluded paths are never reported.
+ */
+function compare(path: string, expected: unknown, actual: unknown, excludeNodes: string[], diff: IBackupDiff): void {
+    if (excludeNodes.some(excluded => isWithin(path, excluded))) {
+        return;
+    }
+
+    const containsExcluded = excludeNodes.some(excluded => isWithin(excluded, path));
+    const bothObjects = isObject(expected) && isObject(actual);
+    const objectOrMissing = (isObject(expected) || expected === null) && (isObject(actual) || actual === null);
+    if (bothObjects || (containsExcluded && objectOrMissing)) {
+        const left = isObject(expected) ? expected : {};
+        const right = isObject(actual) ? actual : {};
+        const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+        for (const key of [...keys].sort()) {
+            compare(join(path, key), left[key] ?? null, right[key] ?? null, excludeNodes, diff);
+        }
+        return;
+    }
+
+    if (expected === null && actual === null) {
+        return;
+    }
+    if (actual === null) {
+        diff.added.push(path);
+    } else if (expected === null) {
+        diff.removed.push(path);
+    } else if (expected !== actual) {
+        diff.changed.push(path);
+    }
+}
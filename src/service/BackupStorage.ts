@@ -0,0 +1,370 @@
+import { createHash } from 'node:crypto';
+import { createReadStream, createWriteStream } from 'node:fs';
+import { mkdir, readFile, readdir, rm, stat, writeFile } from 'node:fs/promises';
+import { basename, dirname, join, resolve } from 'node:path';
+import { once } from 'node:events';
+import { createInterface } from 'node:readline';
+import { PassThrough, Transform } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import moment from 'moment';
+import { BackupFormat, IBackupManifest, IRestoreCheckpoint } from '../interface';
+import { BackupCodec, BackupEncoding } from './BackupCodec';
+
+const MANIFEST_SUFFIX = '.manifest.json';
+const CHECKPOINT_FILE = 'restore.checkpoint.json';
+const EXTENSIONS: Record<BackupFormat, string> = {
+    json: '.json',
+    ndjson: '.ndjson',
+};
+const NDJSON_FILE = /\.ndjson(\.gz)?(\.enc)?$/;
+
+/**
+ * Manifest fields describing where a backup comes from.
+ * The remaining fields are filled in by {@link BackupStorage} when the file is written.
+ */
+export type BackupManifestMeta = Omit<IBackupManifest, 'id' | 'format' | 'file' | 'compression' | 'encryption' | 'size' | 'sha256'>;
+
+/**
+ * Local file storage for persisted backups.
+ *
+ * Every backup is stored as a timestamped file plus a `<id>.manifest.json` file
+ * describing it (shift, database URL, nodes, size, SHA-256 checksum, migration version).
+ * Files are gzip-compressed and AES-256-GCM encrypted according to the given encoding;
+ * reading detects both automatically.
+ *
+ * @example
+ * ```typescript
+ * const storage = new BackupStorage('./backups/firebase');
+ * const manifest = await storage.save(BackupStorage.generateId(), content, meta);
+ * const { content } = await storage.read(manifest.id);
+ * ```
+ */
+export class BackupStorage {
+    /**
+     * Creates a new BackupStorage instance.
+     *
+     * @param directory - Directory where backups and manifests are stored
+     * @param encoding - Compression and encryption of written backups (the key also decrypts on read)
+     */
+    constructor(public readonly directory: string, private readonly encoding: BackupEncoding = {}) {}
+
+    /**
+     * Generates a new timestamped backup identifier.
+     *
+     * @param timestamp - Backup creation time (default: now)
+     * @returns Backup identifier, e.g. `backup-20250101-120000-000`
+     */
+    static generateId(timestamp: number = Date.now()): string {
+        return `backup-${moment.utc(timestamp).format('YYYYMMDD-HHmmss-SSS')}`;
+    }
+
+    /**
+     * Calculates the SHA-256 checksum of backup content.
+     *
+     * @param content - Backup file content
+     * @returns Hex-encoded checksum
+     */
+    static checksum(content: string | Buffer): string {
+        return createHash('sha256').update(content).digest('hex');
+    }
+
+    /**
+     * Writes a backup file and its manifest.
+     *
+     * @param id - Backup identifier
+     * @param content - Backup file content
+     * @param meta - Manifest fields describing the backup origin
+     * @returns The written manifest
+     */
+    async save(id: string, content: string | Buffer, meta: BackupManifestMeta): Promise<IBackupManifest> {
+        await mkdir(this.directory, {recursive: true});
+
+        const file = this.getFileName(id, 'json');
+        const encoded = BackupCodec.encode(Buffer.from(content), this.encoding);
+        await writeFile(join(this.directory, file), encoded);
+
+        return this.writeManifest({
+            id,
+            ...meta,
+            format: 'json',
+            file,
+            ...this.getEncodingMeta(),
+            size: encoded.length,
+            sha256: BackupStorage.checksum(encoded),
+        });
+    }
+
+    /**
+     * Writes a backup file incrementally, one NDJSON line at a time, and then its manifest.
+     *
+     * The producer receives a `write` function that respects stream back-pressure,
+     * so arbitrarily large backups never need to be held in memory.
+     *
+     * @param id - Backup identifier
+     * @param meta - Manifest fields describing the backup origin
+     * @param produce - Callback writing the backup lines
+     * @returns The written manifest
+     */
+    async saveStream(id: string, meta: BackupManifestMeta,
+                     produce: (write: (line: string) => Promise<void>) => Promise<void>): Promise<IBackupManifest> {
+        await mkdir(this.directory, {recursive: true});
+
+        const file = this.getFileName(id, 'ndjson');
+        const path = join(this.directory, file);
+        const source = new PassThrough();
+        const hash = createHash('sha256');
+        let size = 0;
+
+        // Checksum and size describe the file as stored, after compression and encryption
+        const measure = new Transform({
+            transform(chunk: Buffer, _encoding, callback) {
+                hash.update(chunk);
+                size += chunk.length;
+                callback(null, chunk);
+            },
+        });
+        // A write failure is recorded right away, not left unhandled while the data is still being read
+        let failure: unknown;
+        const written = pipeline([source, ...BackupCodec.createEncoder(this.encoding), measure, createWriteStream(path)])
+            .catch((error: unknown) => {
+                failure = error;
+            });
+
+        const write = async (line: string) => {
+            if (!source.destroyed && !source.write(`${line}\n`)) {
+                await Promise.race([once(source, 'drain'), written]);
+            }
+            if (source.destroyed) {
+                // The pipeline failed, so stop the producer with its error
+                await written;
+                throw failure;
+            }
+        };
+
+        try {
+            await produce(write);
+            source.end();
+            await written;
+            if (failure) {
+                throw failure;
+            }
+        } catch (error) {
+            // Never leave a partial backup behind
+            source.destroy();
+            await written;
+            await rm(path, {force: true}).catch(() => undefined);
+            throw error;
+        }
+
+        return this.writeManifest({
+            id,
+            ...meta,
+            format: 'ndjson',
+            file,
+            ...this.getEncodingMeta(),
+            size,
+            sha256: hash.digest('hex'),
+        });
+    }
+
+    /**
+     * Reads the manifest of a stored backup.
+     *
+     * @param id - Backup identifier
+     * @returns Manifest or undefined if no such backup exists
+     */
+    async getManifest(id: string): Promise<IBackupManifest | undefined> {
+        try {
+            return JSON.parse(await readFile(this.getManifestPath(id), 'utf-8')) as IBackupManifest;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return undefined;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Lists manifests of all stored backups, oldest first.
+     *
+     * @returns Array of manifests sorted by creation time
+     */
+    async list(): Promise<IBackupManifest[]> {
+        let files: string[];
+        try {
+            files = await readdir(this.directory);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return [];
+            }
+            throw error;
+        }
+
+        const ids = files
+            .filter(file => file.endsWith(MANIFEST_SUFFIX))
+            .map(file => file.slice(0, -MANIFEST_SUFFIX.length));
+        const manifests = await Promise.all(ids.map(id => this.getManifest(id)));
+        return manifests
+            .filter((manifest): manifest is IBackupManifest => !!manifest)
+            .sort((a, b) => a.timestamp - b.timestamp);
+    }
+
+    /**
+     * Locates a stored backup by identifier or by file path.
+     *
+     * Accepts a backup id known to this storage, a path to a backup file or a path to a manifest file.
+     *
+     * @param idOrPath - Backup identifier or file path
+     * @returns Backup file path, its format and manifest (when available)
+     * @throws ReferenceError if the backup cannot be found
+     */
+    async locate(idOrPath: string): Promise<{ path: string, format: BackupFormat, manifest?: IBackupManifest }> {
+        const manifest = await this.getManifest(idOrPath) ?? await BackupStorage.readManifestFile(idOrPath);
+        if (manifest) {
+            const directory = idOrPath.endsWith(MANIFEST_SUFFIX) ? dirname(resolve(idOrPath)) : this.directory;
+            return {path: join(directory, manifest.file), format: manifest.format ?? 'json', manifest};
+        }
+
+        if (await isFile(idOrPath)) {
+            return {path: idOrPath, format: NDJSON_FILE.test(idOrPath) ? 'ndjson' : 'json'};
+        }
+
+        throw new ReferenceError(`Backup not found: ${idOrPath}`);
+    }
+
+    /**
+     * Reads a stored backup by identifier or by file path, decompressing and
+     * decrypting it as needed.
+     *
+     * @param idOrPath - Backup identifier or file path
+     * @returns Plain backup content and its manifest (when available)
+     * @throws ReferenceError if the backup cannot be found
+     * @throws TypeError if the backup is encrypted and no key is configured
+     */
+    async read(idOrPath: string): Promise<{ content: Buffer, manifest?: IBackupManifest }> {
+        const {path, manifest} = await this.locate(idOrPath);
+        return {content: BackupCodec.decode(await readFile(path), this.encoding.key), manifest};
+    }
+
+    /**
+     * Reads a stored backup line by line without loading the whole file into memory,
+     * decompressing and decrypting it as needed.
+     *
+     * @param idOrPath - Backup identifier or file path
+     * @returns Async iterable of non-empty lines
+     * @throws ReferenceError if the backup cannot be found
+     * @throws TypeError if the backup is encrypted and no key is configured
+     */
+    async* readLines(idOrPath: string): AsyncGenerator<string> {
+        const {path} = await this.locate(idOrPath);
+        const input = await BackupCodec.createDecoder(path, this.encoding.key);
+        const lines = createInterface({input, crlfDelay: Infinity});
+        for await (const line of lines) {
+            if (line.trim()) {
+                yield line;
+            }
+        }
+    }
+
+    /**
+     * Re-reads a stored backup file and compares its size and SHA-256 checksum with the manifest.
+     *
+     * @param idOrPath - Backup identifier or file path
+     * @returns Whether the file matches its manifest, or null when the backup has no manifest
+     * @throws ReferenceError if the backup cannot be found
+     */
+    async verifyChecksum(idOrPath: string): Promise<boolean | null> {
+        const {path, manifest} = await this.locate(idOrPath);
+        if (!manifest) {
+            return null;
+        }
+        const hash = createHash('sha256');
+        let size = 0;
+        for await (const chunk of createReadStream(path)) {
+            hash.update(chunk as Buffer);
+            size += (chunk as Buffer).length;
+        }
+        return size === manifest.size && hash.digest('hex') === manifest.sha256;
+    }
+
+    /**
+     * Deletes a stored backup and its manifest.
+     *
+     * @param id - Backup identifier
+     */
+    async remove(id: string): Promise<void> {
+        const manifest = await this.getManifest(id);
+        if (manifest) {
+            await rm(join(this.directory, basename(manifest.file)), {force: true});
+        }
+        await rm(this.getManifestPath(id), {force: true});
+    }
+
+    /**
+     * Reads the checkpoint of an interrupted restore.
+     *
+     * @returns Checkpoint or undefined if no restore is in progress
+     */
+    async getCheckpoint(): Promise<IRestoreCheckpoint | undefined> {
+        try {
+            return JSON.parse(await readFile(join(this.directory, CHECKPOINT_FILE), 'utf-8')) as IRestoreCheckpoint;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return undefined;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Records restore progress so an interrupted restore can be resumed.
+     *
+     * @param checkpoint - Restore progress after the last committed batch
+     */
+    async saveCheckpoint(checkpoint: IRestoreCheckpoint): Promise<void> {
+        await mkdir(this.directory, {recursive: true});
+        await writeFile(join(this.directory, CHECKPOINT_FILE), JSON.stringify(checkpoint, null, '  '));
+    }
+
+    /**
+     * Removes the restore checkpoint once a restore has completed.
+     */
+    async clearCheckpoint(): Promise<void> {
+        await rm(join(this.directory, CHECKPOINT_FILE), {force: true});
+    }
+
+    private getFileName(id: string, format: BackupFormat): string {
+        return `${id}${EXTENSIONS[format]}${this.encoding.compress ? '.gz' : ''}${this.encoding.key ? '.enc' : ''}`;
+    }
+
+    private getEncodingMeta(): Pick<IBackupManifest, 'compression' | 'encryption'> {
+        return {
+            compression: this.encoding.compress ? 'gzip' : null,
+            encryption: this.encoding.key ? 'aes-256-gcm' : null,
+        };
+    }
+
+    private async writeManifest(manifest: IBackupManifest): Promise<IBackupManifest> {
+        await writeFile(this.getManifestPath(manifest.id), JSON.stringify(manifest, null, '  '));
+        return manifest;
+    }
+
+    private getManifestPath(id: string): string {
+        return join(this.directory, `${id}${MANIFEST_SUFFIX}`);
+    }
+
+    private static async readManifestFile(path: string): Promise<IBackupManifest | undefined> {
+        if (!path.endsWith(MANIFEST_SUFFIX) || !(await isFile(path))) {
+            return undefined;
+        }
+        return JSON.parse(await readFile(path, 'utf-8')) as IBackupManifest;
+    }
+}
+
+async function isFile(path: string): Promise<boolean> {
+    try {
+        return (await stat(path)).isFile();
+    } catch {
+        return false;
+    }
+}
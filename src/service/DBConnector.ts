@@ -2,20 +2,103 @@ import * as admin from "firebase-admin";
 import _ from "lodash";
 import {FirebaseConfig} from "../model";
 
+const EMULATOR_NAMESPACE = "default"
+
+// The emulator accepts any token, so no service account is needed
+const EMULATOR_CREDENTIAL: admin.credential.Credential = {
+    getAccessToken: async () => ({access_token: "owner", expires_in: 3600}),
+}
+
 export class DBConnector {
 
-    public static async connect(cfg:FirebaseConfig): Promise<admin.database.Database> {
-        const filePath = cfg.applicationCredentials
-        if(!filePath) throw new TypeError("Application credentials not found in configuration")
+    /**
+     * Initializes a Firebase app and returns its Realtime Database. When an existing `app` is
+     * given, its database is returned instead and no credentials are loaded.
+     *
+     * Credentials are resolved according to `cfg.credentialsMode`:
+     * - `file` - service account key file from `applicationCredentials`
+     * - `json` - service account key given inline in `credentialsJson` (raw or base64-encoded JSON)
+     * - `adc` - Application Default Credentials (GCP metadata server, `gcloud auth application-default login`, workload identity)
+     *
+     * Without an explicit mode, `json` is used when `credentialsJson` is set, `file` when
+     * `applicationCredentials` is set, and `adc` otherwise.
+     *
+     * `databaseAuthVariableOverride` is passed to the app so security rules are enforced for that identity.
+     *
+     * Against the Realtime Database emulator (see {@link FirebaseConfig.getEmulatorHost}) no credentials are
+     * needed and none are loaded unless `credentialsMode` is set explicitly. The namespace is
+     * taken from `databaseUrl`, or `default` when no URL is configured. The SDK itself connects
+     * to `FIREBASE_DATABASE_EMULATOR_HOST` and to `http://` URLs; the database is only redirected
+     * with `useEmulator()` when `emulatorHost` (e.g. `--emulator`) names another host, and never
+     * on a host-supplied `app`, which the host has to point at the emulator itself.
+     *
+     * @throws TypeError if the credentials required by the mode are not configured, the
+     *         service account key cannot be parsed or misses `project_id`, `client_email` or `private_key`,
+     *         or the emulator host is not given as `host:port`, or `databaseUrl` lists several shards
+     */
+    public static async connect(cfg:FirebaseConfig, app?:admin.app.App): Promise<admin.database.Database> {
+        const configuredUrl = cfg.getDatabaseUrl()
+        const emulatorHost = cfg.getEmulatorHost()
+        // The SDK connects to FIREBASE_DATABASE_EMULATOR_HOST and http:// URLs on its own, so only another host needs redirecting
+        const emulator = cfg.emulatorHost && cfg.emulatorHost !== process.env.FIREBASE_DATABASE_EMULATOR_HOST
+            ? DBConnector.parseHost(cfg.emulatorHost) : undefined
+        const databaseUrl = configuredUrl ?? (emulatorHost ? `http://${emulatorHost}?ns=${EMULATOR_NAMESPACE}` : undefined)
+        // The database of a host app may already be in use, and useEmulator() throws once it is
+        if(app) return app.database(databaseUrl)
 
-        const serviceAccount = await import(filePath)
         const name = `${Date.now()}-${_.random(10)}`
         const options = {
-            credential: admin.credential.cert(serviceAccount),
+            credential: emulatorHost && !cfg.credentialsMode ? EMULATOR_CREDENTIAL : await DBConnector.getCredential(cfg),
         } as admin.AppOptions
+        if(cfg.databaseAuthVariableOverride !== undefined) {
+            options.databaseAuthVariableOverride = cfg.databaseAuthVariableOverride
+        }
+        const database = admin.initializeApp(options, name).database(databaseUrl)
+        if(emulator) database.useEmulator(emulator.host, emulator.port)
+        return database
+    }
 
-        const app = admin.initializeApp(options, name)
+    private static async getCredential(cfg:FirebaseConfig): Promise<admin.credential.Credential> {
+        const mode = cfg.getCredentialsMode()
+        switch (mode) {
+            case "adc":
+                return admin.credential.applicationDefault()
+            case "json": {
+                if(!cfg.credentialsJson) throw new TypeError("Service account JSON not found in configuration (credentialsJson)")
+                return admin.credential.cert(FirebaseConfig.parseServiceAccount(cfg.credentialsJson))
+            }
+            case "file": {
+                const filePath = cfg.applicationCredentials
+                if(!filePath) throw new TypeError("Application credentials not found in configuration")
+                const serviceAccount = await import(filePath)
+                return admin.credential.cert(FirebaseConfig.validateServiceAccount(serviceAccount, filePath))
+            }
+            default:
+                throw new TypeError(`Unknown credentials mode "${mode}", expected "file", "adc" or "json"`)
+        }
+    }
+
+    /**
+     * Parses a database auth variable override given as JSON, e.g. `{"uid":"migrator"}` or `null`.
+     *
+     * @throws TypeError if the value is not a JSON object or null
+     */
+    public static parseAuthOverride(value:string): object | null {
+        let override: unknown
+        try {
+            override = JSON.parse(value)
+        } catch {
+            throw new TypeError(`Auth variable override is not valid JSON: ${value}`)
+        }
+        if(override !== null && (typeof override !== "object" || Array.isArray(override))) {
+            throw new TypeError(`Auth variable override must be a JSON object or null, got ${value}`)
+        }
+        return override as object | null
+    }
 
-        return app.database(cfg.databaseUrl)
+    private static parseHost(value:string): {host: string, port: number} {
+        const match = /^(.+):(\d+)$/.exec(value.trim())
+        if(!match) throw new TypeError(`Invalid emulator host "${value}", expected host:port`)
+        return {host: match[1], port: Number(match[2])}
     }
 }
\ No newline at end of file
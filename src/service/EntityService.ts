@@ -1,6 +1,8 @@
 import {FirebaseDataService} from "./FirebaseDataService";
 import {database} from "firebase-admin";
-import {IEntity} from "../interface";
+import _ from "lodash";
+import {IEntity, IEntityPage, IPageOptions} from "../interface";
+import {FirebaseConfig} from "../model";
 
 /**
  * Type-safe service for managing entities in Firebase Realtime Database.
@@ -22,20 +24,25 @@ import {IEntity} from "../interface";
  * ```
  */
 export class EntityService<T extends IEntity> extends FirebaseDataService {
+    protected readonly root:string
+
     /**
      * Creates a new EntityService instance.
      *
      * @param db - Firebase Realtime Database instance
      * @param root - Root path for the entity collection (e.g., 'users', 'production/users')
+     * @throws InvalidPathError if the root path contains an invalid key
      */
     constructor(public readonly db: database.Database,
-                protected readonly root:string) {
+                root:string) {
         super(db);
+        this.root = FirebaseConfig.normalizePath(root)
     }
 
     /**
      * Retrieves all entities from the collection as an array.
      * Each entity includes its Firebase key in the `key` property.
+     * Loads the whole collection at once; use {@link getPage} or {@link iterate} for large collections.
      *
      * @returns Promise that resolves to an array of entities
      *
@@ -49,6 +56,82 @@ export class EntityService<T extends IEntity> extends FirebaseDataService {
         return this.getList<T>(this.root);
     }
 
+    /**
+     * Retrieves one page of entities, ordered by key or by a child value.
+     * Use the returned `next` cursor to fetch the following page, so large collections
+     * never have to be loaded at once.
+     *
+     * @param options - Page size, cursor and optional child to order by
+     * @returns Promise that resolves to the entities of the page and the cursor of the next one
+     * @throws RangeError if `limit` is not a positive integer
+     *
+     * @example
+     * ```typescript
+     * const first = await userService.getPage({ limit: 100, orderBy: 'createdAt' });
+     * if (first.next) {
+     *   const second = await userService.getPage({ limit: 100, orderBy: 'createdAt', ...first.next });
+     * }
+     * ```
+     */
+    async getPage(options: IPageOptions): Promise<IEntityPage<T>> {
+        const {limit, orderBy, startAfterKey, startAfterValue} = options;
+        if (!Number.isInteger(limit) || limit < 1) {
+            throw new RangeError(`Page limit must be a positive integer, got ${limit}`);
+        }
+
+        const ref = this.db.ref(this.root);
+        let query = orderBy ? ref.orderByChild(orderBy) : ref.orderByKey();
+        if (startAfterKey !== undefined) {
+            query = orderBy ? query.startAfter(startAfterValue ?? null, startAfterKey) : query.startAfter(startAfterKey);
+        }
+        // One extra entity tells whether another page follows
+        const snapshot = await query.limitToFirst(limit + 1).once("value");
+
+        const items: T[] = [];
+        snapshot.forEach(child => {
+            const value = child.val();
+            items.push(FirebaseDataService.mixKey(value instanceof Object ? value : {value}, child.key));
+        });
+        if (items.length <= limit) {
+            return {items, next: null};
+        }
+
+        items.length = limit;
+        const last = items[limit - 1];
+        return {
+            items,
+            next: orderBy
+                ? {startAfterKey: last.key as string, startAfterValue: _.get(last, orderBy.split("/"), null)}
+                : {startAfterKey: last.key as string},
+        };
+    }
+
+    /**
+     * Iterates over all entities page by page, so migrations over large collections
+     * keep only one page in memory.
+     *
+     * @param pageSize - Entities fetched per query (default: 1000)
+     * @param orderBy - Child to order by; entities are ordered by key when not set
+     * @returns Async generator of entities in query order
+     *
+     * @example
+     * ```typescript
+     * for await (const user of userService.iterate(500)) {
+     *   if (user.verified === undefined) {
+     *     await userService.update(user.key!, { ...user, verified: false });
+     *   }
+     * }
+     * ```
+     */
+    async* iterate(pageSize: number = 1000, orderBy?: string): AsyncGenerator<T> {
+        let page = await this.getPage({limit: pageSize, orderBy});
+        yield* page.items;
+        while (page.next) {
+            page = await this.getPage({limit: pageSize, orderBy, ...page.next});
+            yield* page.items;
+        }
+    }
+
     /**
      * Retrieves all entities as an object with keys as properties.
      *
@@ -79,7 +162,7 @@ export class EntityService<T extends IEntity> extends FirebaseDataService {
      * ```
      */
     get(key:string):Promise<T> {
-        return this.getObject<T>(`${this.root}/${key}`);
+        return this.getObject<T>(this.path(key));
     }
 
     /**
@@ -186,7 +269,7 @@ export class EntityService<T extends IEntity> extends FirebaseDataService {
      * ```
      */
     async update(key: string, obj: T) {
-        await this.updateObject(`${this.root}/${key}`, obj);
+        await this.updateObject(this.path(key), obj);
         return key;
     }
 
@@ -208,7 +291,7 @@ export class EntityService<T extends IEntity> extends FirebaseDataService {
      * ```
      */
     async set(key: string, obj: T) {
-        await this.setObject(`${this.root}/${key}`, obj);
+        await this.setObject(this.path(key), obj);
         return key;
     }
 
@@ -225,7 +308,7 @@ export class EntityService<T extends IEntity> extends FirebaseDataService {
      * ```
      */
     async remove(key: string) {
-        await this.db.ref(`${this.root}/${key}`).remove();
+        await this.db.ref(this.path(key)).remove();
         return key;
     }
 
@@ -288,6 +371,15 @@ export class EntityService<T extends IEntity> extends FirebaseDataService {
               value:number | string | boolean | null):Promise<T[]> {
         return super.findAllObjectsBy<T>(this.root, propertyName, value);
     }
+
+    /**
+     * Builds the path of an entity.
+     *
+     * @throws InvalidPathError if the key is not a valid Firebase key
+     */
+    private path(key:string) {
+        return FirebaseConfig.normalizePath(this.root, key)
+    }
 }
 
 /**
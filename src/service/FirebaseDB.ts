@@ -1,5 +1,9 @@
 import { database } from 'firebase-admin';
-import { IFirebaseDB } from '../interface';
+import { IConnectionStatus, IFirebaseDB } from '../interface';
+
+const DEFAULT_CONNECTION_TIMEOUT = 10000;
+// Read to measure the round trip; it does not need to exist
+const PING_PATH = '__msr_ping__';
 
 /**
  * Firebase Realtime Database implementation of IFirebaseDB.
@@ -14,6 +18,9 @@ import { IFirebaseDB } from '../interface';
  * const firebaseDb = new FirebaseDB(database);
  * await firebaseDb.checkConnection();
  *
+ * const status = await firebaseDb.getConnectionStatus();
+ * console.log(`round trip ${status.latencyMs}ms, clock offset ${status.serverTimeOffset}ms`);
+ *
  * // Single-node atomic transaction
  * const ref = firebaseDb.database.ref('counters/posts');
  * await ref.transaction((current) => (current || 0) + 1);
@@ -26,23 +33,65 @@ export class FirebaseDB implements IFirebaseDB {
      * Creates a new FirebaseDB instance.
      *
      * @param database - Firebase Realtime Database instance from firebase-admin
+     * @param connectionTimeout - Milliseconds to wait for a connection in {@link checkConnection} (default: 10000)
      */
-    constructor(public readonly database: database.Database) {}
+    constructor(
+        public readonly database: database.Database,
+        private readonly connectionTimeout: number = DEFAULT_CONNECTION_TIMEOUT
+    ) {}
 
     /**
      * Checks the connection to Firebase Realtime Database.
      *
-     * Tests connectivity by reading the special `.info/connected` path,
-     * which is always available and indicates connection status.
+     * Waits until the special `.info/connected` path reports `true`, giving up after
+     * the connection timeout.
      *
      * @returns Promise resolving to true if connected, false otherwise
      */
     async checkConnection(): Promise<boolean> {
-        try {
-            await this.database.ref('.info/connected').once('value');
-            return true;
-        } catch {
-            return false;
+        return (await this.getConnectionStatus()).connected;
+    }
+
+    /**
+     * Checks the connection and reports the round-trip latency and the server clock offset.
+     *
+     * Once connected, the latency is measured by reading a path from the server, so it is
+     * a real round trip even when the client was connected already.
+     *
+     * @param timeout - Milliseconds to wait for `.info/connected` to become true (default: connection timeout)
+     * @returns Connection status; `connected` is false when the timeout elapsed or the check failed
+     */
+    async getConnectionStatus(timeout: number = this.connectionTimeout): Promise<IConnectionStatus> {
+        if (!await this.waitForConnection(timeout)) {
+            return {connected: false, latencyMs: null, serverTimeOffset: null};
         }
+        const latencyMs = await this.measureRoundTrip();
+        const offset = await this.database.ref('.info/serverTimeOffset').once('value');
+        return {connected: true, latencyMs, serverTimeOffset: offset.val() ?? 0};
+    }
+
+    private async measureRoundTrip(): Promise<number> {
+        const started = Date.now();
+        // A permission error is an answer from the server as well
+        await this.database.ref(PING_PATH).once('value').catch(() => undefined);
+        return Date.now() - started;
+    }
+
+    private waitForConnection(timeout: number): Promise<boolean> {
+        const ref = this.database.ref('.info/connected');
+        return new Promise(resolve => {
+            const done = (connected: boolean) => {
+                clearTimeout(timer);
+                ref.off('value', onValue);
+                resolve(connected);
+            };
+            const onValue = (snapshot: database.DataSnapshot) => {
+                if (snapshot.val() === true) {
+                    done(true);
+                }
+            };
+            const timer = setTimeout(() => done(false), timeout);
+            ref.on('value', onValue, () => done(false));
+        });
     }
 }
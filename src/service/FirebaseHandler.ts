@@ -1,4 +1,4 @@
-import { IDatabaseMigrationHandler, IBackupService, ISchemaVersion, ILockingService } from '@migration-script-runner/core';
+import { IDatabaseMigrationHandler, ISchemaVersion, ILockingService, ILogger } from '@migration-script-runner/core';
 import { version } from '../../package.json';
 
 import {
@@ -10,7 +10,7 @@ import {
     FirebaseDB,
     FirebaseLockingService
 } from '../index';
-import { IFirebaseDB } from '../interface';
+import { IFirebaseDB, IFirebaseExecutorOptions } from '../interface';
 
 /**
  * Firebase Realtime Database migration handler.
@@ -20,16 +20,20 @@ import { IFirebaseDB } from '../interface';
  */
 export class FirebaseHandler implements IDatabaseMigrationHandler<IFirebaseDB> {
     readonly db: IFirebaseDB;
-    readonly backup: IBackupService;
+    readonly backup: BackupService;
     readonly schemaVersion: ISchemaVersion<IFirebaseDB>;
     readonly lockingService?: ILockingService<IFirebaseDB>;
 
+    private disposed = false;
+
     private constructor(
         public readonly cfg: FirebaseConfig,
-        firebaseDatabase: FirebaseDB
+        firebaseDatabase: FirebaseDB,
+        logger?: ILogger,
+        private readonly ownsApp = true
     ) {
         this.db = firebaseDatabase;
-        this.backup = new BackupService(firebaseDatabase.database);
+        this.backup = new BackupService(firebaseDatabase.database, cfg, logger);
         const mss = new MigrationScriptService(firebaseDatabase.database, this.cfg.buildPath(this.cfg.tableName));
         this.schemaVersion = new SchemaVersionService(mss, cfg);
 
@@ -50,12 +54,23 @@ export class FirebaseHandler implements IDatabaseMigrationHandler<IFirebaseDB> {
      * and initializes all required services.
      *
      * @param cfg - Application configuration
+     * @param logger - Optional logger for backup and restore progress
+     * @param shared - Optional database or Firebase app owned by the host application; it is
+     *                 used instead of connecting and left running on {@link dispose}
      * @returns Promise resolving to configured FirebaseHandler
+     * @throws TypeError if both a shared database and app are given
      */
-    public static async getInstance(cfg: FirebaseConfig): Promise<FirebaseHandler> {
-        const database = await DBConnector.connect(cfg);
-        const firebaseDb = new FirebaseDB(database);
-        const handler = new FirebaseHandler(cfg, firebaseDb);
+    public static async getInstance(
+        cfg: FirebaseConfig,
+        logger?: ILogger,
+        shared: Pick<IFirebaseExecutorOptions, 'database' | 'app'> = {}
+    ): Promise<FirebaseHandler> {
+        if (shared.database && shared.app) {
+            throw new TypeError('Pass either a shared database or a shared app, not both');
+        }
+        const database = shared.database ?? await DBConnector.connect(cfg, shared.app);
+        const firebaseDb = new FirebaseDB(database, cfg.connectionTimeout);
+        const handler = new FirebaseHandler(cfg, firebaseDb, logger, !shared.database && !shared.app);
 
         // Initialize lock storage if locking is enabled
         if (handler.lockingService && 'initLockStorage' in handler.lockingService) {
@@ -65,6 +80,23 @@ export class FirebaseHandler implements IDatabaseMigrationHandler<IFirebaseDB> {
         return handler;
     }
 
+    /**
+     * Closes the database connection and deletes the Firebase app created by {@link getInstance},
+     * releasing its sockets so the process can exit on its own.
+     *
+     * An app passed in by the host application is left untouched. Calling dispose more than once has no effect.
+     */
+    async dispose(): Promise<void> {
+        if (this.disposed) {
+            return;
+        }
+        this.disposed = true;
+        if (this.ownsApp) {
+            this.db.database.goOffline();
+            await this.db.database.app.delete();
+        }
+    }
+
     getName = () => 'Firebase Realtime Database Runner';
 
     getVersion = () => version;
@@ -1,5 +1,6 @@
 import { ILockingService, ILockStatus, LockingConfig } from '@migration-script-runner/core';
 import { IFirebaseDB } from '../interface';
+import { FirebaseConfig } from '../model';
 
 /**
  * Lock data stored in Firebase Realtime Database.
@@ -91,8 +92,7 @@ export class FirebaseLockingService implements ILockingService<IFirebaseDB> {
         shift?: string
     ) {
         this.timeout = lockingConfig?.timeout ?? 600000; // Default 10 minutes
-        const prefix = shift ? `${shift}/` : '';
-        this.lockPath = `${prefix}migrations/_lock`;
+        this.lockPath = FirebaseConfig.normalizePath(shift, 'migrations/_lock');
     }
 
     /**
@@ -0,0 +1,153 @@
+import { database } from 'firebase-admin';
+
+const PRIORITY = '.priority';
+
+/**
+ * Limits and callbacks of a {@link RestoreBatcher}.
+ */
+export type RestoreBatcherOptions = {
+    /** Maximum payload size of a single write in bytes */
+    maxBatchSize: number;
+    /** Maximum number of paths in a single multi-path update */
+    maxBatchPaths: number;
+    /** Number of batches committed by a previous, interrupted run - these are skipped */
+    skip: number;
+    /** Called after every committed batch */
+    onCommit: (batch: number, paths: number, bytes: number) => Promise<void>;
+};
+
+/**
+ * Groups restore writes into batches that stay within Firebase write size limits.
+ *
+ * Values are written with multi-path `update()` calls of at most `maxBatchSize` bytes
+ * and `maxBatchPaths` paths. Values that are too large for a single write are cleared
+ * first and rewritten child by child.
+ *
+ * Every write counts as one numbered batch. Batches are produced in a deterministic
+ * order for the same backup, so a restore can resume by skipping the batches a
+ * previous run already committed.
+ */
+export class RestoreBatcher {
+    private batch: Record<string, unknown> = {};
+    private paths = 0;
+    private bytes = 0;
+    private batches = 0;
+
+    constructor(private readonly db: database.Database, private readonly options: RestoreBatcherOptions) {}
+
+    /**
+     * Gets the number of batches processed so far, skipped ones included.
+     */
+    get count(): number {
+        return this.batches;
+    }
+
+    /**
+     * Replaces a node. Fits in one `set()` when small enough, otherwise the node is
+     * cleared and its children are written in batches.
+     *
+     * @param path - Normalized absolute node path
+     * @param value - Node value
+     */
+    async set(path: string, value: unknown): Promise<void> {
+        if (isPriority(path)) {
+            // A priority is not a node of its own and can only be written as part of an update
+            await this.update(path, value);
+            return;
+        }
+        await this.flush();
+        const size = sizeOf(path, value);
+        if (size <= this.options.maxBatchSize || !isSplittable(value)) {
+            await this.commit(() => this.db.ref(path).set(value), 1, size);
+            return;
+        }
+        await this.commit(() => this.db.ref(path).remove(), 0, 0);
+        await this.split(path, value as Record<string, unknown>);
+    }
+
+    /**
+     * Queues a value for a multi-path update, splitting it when it does not fit in a batch.
+     *
+     * The parent node is expected to have been cleared already, so a split value
+     * is written child by child without removing the node first.
+     *
+     * @param path - Normalized absolute node path
+     * @param value - Node value
+     */
+    async update(path: string, value: unknown): Promise<void> {
+        const size = sizeOf(path, value);
+        if (path === '/') {
+            await this.set(path, value);
+            return;
+        }
+        if (size > this.options.maxBatchSize && isSplittable(value)) {
+            await this.flush();
+            await this.split(path, value as Record<string, unknown>);
+            return;
+        }
+
+        if (this.paths && (this.bytes + size > this.options.maxBatchSize || this.paths >= this.options.maxBatchPaths)) {
+            await this.flush();
+        }
+        this.batch[path.slice(1)] = value;
+        this.paths++;
+        this.bytes += size;
+    }
+
+    /**
+     * Runs a write that is not a value update (e.g. clearing a node) as a batch of its own.
+     *
+     * @param write - Write to run unless the batch was committed by a previous run
+     */
+    async run(write: () => Promise<void>): Promise<void> {
+        await this.flush();
+        await this.commit(write, 0, 0);
+    }
+
+    /**
+     * Writes the queued multi-path update.
+     */
+    async flush(): Promise<void> {
+        if (!this.paths) {
+            return;
+        }
+        const batch = this.batch;
+        const paths = this.paths;
+        const bytes = this.bytes;
+        this.batch = {};
+        this.paths = 0;
+        this.bytes = 0;
+        await this.commit(() => this.db.ref().update(batch), paths, bytes);
+    }
+
+    private async split(path: string, value: Record<string, unknown>): Promise<void> {
+        const prefix = path === '/' ? '' : path;
+        // Write the priority after the children, so it is not set on a node that does not exist yet
+        const entries = Object.entries(value).sort(([a], [b]) => Number(a === PRIORITY) - Number(b === PRIORITY));
+        for (const [key, child] of entries) {
+            await this.update(`${prefix}/${key}`, child);
+        }
+    }
+
+    private async commit(write: () => Promise<void>, paths: number, bytes: number): Promise<void> {
+        this.batches++;
+        if (this.batches <= this.options.skip) {
+            return;
+        }
+        await write();
+        await this.options.onCommit(this.batches, paths, bytes);
+    }
+}
+
+function sizeOf(path: string, value: unknown): number {
+    return Buffer.byteLength(path) + Buffer.byteLength(JSON.stringify(value) ?? 'null');
+}
+
+function isSplittable(value: unknown): boolean {
+    // Leaf values exported with a priority ({'.value', '.priority'}) cannot be split
+    return value !== null && typeof value === 'object' && Object.keys(value).length > 0 && !('.value' in value);
+}
+
+function isPriority(path: string): boolean {
+    return path.endsWith(`/${PRIORITY}`);
+}
@@ -1,5 +1,8 @@
 export * from './FirebaseDataService'
 export * from './BackupService'
+export * from './BackupCodec'
+export * from './BackupStorage'
+export * from './BackupRetention'
 export * from './DBConnector'
 export * from './EntityService'
 export * from './FirebaseDB'
@@ -4,12 +4,7 @@ export class IntegrationTestConfig extends FirebaseConfig {
 
     constructor() {
         super()
-        // For emulator, we need valid service account credentials
-        // Even though emulator doesn't validate them, firebase-admin still parses them
-        this.applicationCredentials = process.env.GOOGLE_APPLICATION_CREDENTIALS ||
-            `${process.cwd()}/test/resources/fake-service-account.json`
-
-        // Connect to local emulator
+        // Connect to local emulator, no credentials needed
         this.databaseUrl = "http://localhost:9000?ns=test-integration"
 
         // Use timestamp-based path for test isolation
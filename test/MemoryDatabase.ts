@@ -0,0 +1,179 @@
+import {database} from "firebase-admin";
+
+type Data = Record<string, unknown>
+
+interface MemorySnapshot {
+    key: string | null
+    val(): unknown
+    exportVal(): unknown
+    exists(): boolean
+    forEach(action: (child: MemorySnapshot) => boolean | void): boolean
+}
+
+const split = (path: string = '') => path.split('/').filter(Boolean)
+
+const clone = <T>(value: T): T => value === undefined ? value : JSON.parse(JSON.stringify(value))
+
+const isMeta = (key: string) => key === '.priority' || key === '.value'
+
+/**
+ * Converts stored export format (with `.priority` / `.value` keys) to a plain value.
+ */
+const plain = (value: unknown): unknown => {
+    if (value === null || typeof value !== 'object') return value
+    if ('.value' in (value as Data)) return (value as Data)['.value']
+    const keys = Object.keys(value as Data).filter(key => !isMeta(key))
+    return keys.length ? Object.fromEntries(keys.map(key => [key, plain((value as Data)[key])])) : null
+}
+
+/**
+ * Minimal in-memory stand-in for firebase-admin Database used by unit tests.
+ *
+ * Supports `ref(path)` with `once('value')`, `set`, `update` (multi-path), `remove`
+ * and key-ordered paging via `orderByKey().startAfter().limitToFirst()`.
+ * Data is stored in export format, so `.priority` values written with `set`/`update`
+ * are kept and returned by `exportVal()`.
+ * Shallow REST queries (`?shallow=true`) are answered by {@link MemoryDatabase.fetch},
+ * which can stand in for the global `fetch`.
+ * Whole reads, paged queries, shallow queries and updates are recorded in `calls` for assertions.
+ */
+export class MemoryDatabase {
+    private static readonly instances = new Map<string, MemoryDatabase>()
+
+    public root: unknown
+    public readonly url: string
+    public readonly calls = {
+        reads: [] as string[],
+        pages: [] as {path: string, after?: string, limit?: number}[],
+        shallow: [] as string[],
+        updates: [] as {path: string, values: Data}[]
+    }
+
+    constructor(data: Data = {}, url = `http://memory-${MemoryDatabase.instances.size}.localhost`) {
+        this.root = clone(data)
+        this.url = url
+        MemoryDatabase.instances.set(this.url, this)
+    }
+
+    /**
+     * Answers shallow REST queries against the database a URL belongs to.
+     */
+    static readonly fetch = async (input: string | URL | Request): Promise<Response> => {
+        const url = new URL(input instanceof Request ? input.url : input)
+        const db = MemoryDatabase.instances.get(url.origin)
+        if (!db || url.searchParams.get("shallow") !== "true") return new Response(null, {status: 400, statusText: "Bad Request"})
+
+        const path = decodeURIComponent(url.pathname.replace(/\.json$/, ""))
+        db.calls.shallow.push(path)
+        const value = db.get(path)
+        const keys = value !== null && typeof value === "object" ? Object.keys(value as Data).filter(key => !isMeta(key)) : []
+        return new Response(JSON.stringify(keys.length ? Object.fromEntries(keys.map(key => [key, true])) : plain(value)))
+    }
+
+    get(path: string): unknown {
+        let node: unknown = this.root
+        for (const key of split(path)) {
+            if (node === null || typeof node !== 'object') return null
+            node = (node as Data)[key]
+        }
+        return node === undefined ? null : clone(node)
+    }
+
+    write(path: string, value: unknown) {
+        const keys = split(path)
+        if (!keys.length) {
+            this.root = value === null ? {} : clone(value)
+            return
+        }
+        let node = this.root as Data
+        for (const key of keys.slice(0, -1)) {
+            if (node[key] === null || typeof node[key] !== 'object') node[key] = {}
+            node = node[key] as Data
+        }
+        const last = keys[keys.length - 1]
+        if (value === null) delete node[last]
+        else node[last] = clone(value)
+    }
+
+    ref(path: string = '/') {
+        return new MemoryReference(this, path)
+    }
+
+    asDatabase(): database.Database {
+        return this as unknown as database.Database
+    }
+}
+
+class MemoryQuery {
+    constructor(protected readonly db: MemoryDatabase,
+                protected readonly path: string,
+                private readonly after?: string,
+                private readonly limit?: number) {}
+
+    orderByKey() {
+        return new MemoryQuery(this.db, this.path, this.after, this.limit)
+    }
+
+    startAfter(key: string) {
+        return new MemoryQuery(this.db, this.path, key, this.limit)
+    }
+
+    limitToFirst(limit: number) {
+        return new MemoryQuery(this.db, this.path, this.after, limit)
+    }
+
+    async once(_event: string) {
+        let value = this.db.get(this.path)
+        const paged = this.after !== undefined || this.limit !== undefined
+        if (paged) this.db.calls.pages.push({path: this.path, after: this.after, limit: this.limit})
+        else this.db.calls.reads.push(this.path)
+        if (paged && value !== null && typeof value === 'object') {
+            const keys = Object.keys(value as Data).filter(key => !isMeta(key)).sort()
+                .filter(key => this.after === undefined || key > this.after)
+                .slice(0, this.limit)
+            value = keys.length ? Object.fromEntries(keys.map(key => [key, (value as Data)[key]])) : null
+        }
+        return snapshot(split(this.path).pop() ?? null, value)
+    }
+}
+
+class MemoryReference extends MemoryQuery {
+    get key() {
+        return split(this.path).pop() ?? null
+    }
+
+    toString() {
+        return `${this.db.url}/${split(this.path).map(encodeURIComponent).join("/")}`
+    }
+
+    async set(value: unknown) {
+        this.db.write(this.path, value)
+    }
+
+    async update(values: Data) {
+        this.db.calls.updates.push({path: this.path, values: clone(values)})
+        for (const [path, value] of Object.entries(values)) {
+            this.db.write(`${this.path}/${path}`, value)
+        }
+    }
+
+    async remove() {
+        this.db.write(this.path, null)
+    }
+}
+
+function snapshot(key: string | null, value: unknown): MemorySnapshot {
+    return {
+        key,
+        val: () => plain(clone(value)),
+        exportVal: () => clone(value),
+        exists: () => plain(value) !== null,
+        forEach: (action: (child: MemorySnapshot) => boolean | void) => {
+            if (value === null || typeof value !== 'object') return false
+            for (const childKey of Object.keys(value as Data).filter(key => !isMeta(key)).sort()) {
+                if (action(snapshot(childKey, (value as Data)[childKey]))) return true
+            }
+            return false
+        }
+    }
+}
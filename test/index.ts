@@ -1,4 +1,5 @@
 export * from './TestConfig'
 export * from './TestUtils'
 export * from './TestEntity'
-export * from './TestDataCleaner'
\ No newline at end of file
+export * from './TestDataCleaner'
+export * from './MemoryDatabase'
\ No newline at end of file
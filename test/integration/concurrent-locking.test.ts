@@ -21,8 +21,6 @@ describe("Concurrent Migration Locking Integration", () => {
     before(() => {
         // Shared configuration for all test instances
         config = new FirebaseConfig();
-        config.applicationCredentials = process.env.GOOGLE_APPLICATION_CREDENTIALS ||
-            `${process.cwd()}/test/resources/fake-service-account.json`;
         config.databaseUrl = process.env.DATABASE_URL || "http://localhost:9000?ns=test-integration";
         config.shift = shift;
         config.tableName = "schema_version";
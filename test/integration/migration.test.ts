@@ -112,7 +112,7 @@ describe('Firebase Integration Tests', () => {
             await db.ref(testPath).set({test: 'data', value: 42})
 
             // Create backup
-            const backupService = new BackupService(db)
+            const backupService = new BackupService(db, cfg)
             const backup = await backupService.backup()
 
             // Verify backup contains data
@@ -129,7 +129,7 @@ describe('Firebase Integration Tests', () => {
             await db.ref(testPath).set({original: 'value'})
 
             // Create backup
-            const backupService = new BackupService(db)
+            const backupService = new BackupService(db, cfg)
             const backup = await backupService.backup()
 
             // Modify data
@@ -163,7 +163,7 @@ describe('Firebase Integration Tests', () => {
             await db.ref(testPath).set(originalData)
 
             // Backup
-            const backupService = new BackupService(db)
+            const backupService = new BackupService(db, cfg)
             const backup = await backupService.backup()
 
             // Clear data
@@ -307,7 +307,7 @@ describe('Firebase Integration Tests', () => {
         })
 
         it('should handle empty backup restore', async () => {
-            const backupService = new BackupService(db)
+            const backupService = new BackupService(db, cfg)
 
             try {
                 await backupService.restore('{}')
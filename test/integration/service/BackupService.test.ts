@@ -1,5 +1,8 @@
 import {expect} from "chai"
 import {database} from "firebase-admin"
+import {mkdtempSync, readFileSync, rmSync} from "node:fs"
+import {tmpdir} from "node:os"
+import {join} from "node:path"
 
 import {BackupService, EntityService, DBConnector} from "../../../src"
 import {TestEntity} from "../../TestEntity"
@@ -25,7 +28,7 @@ describe('BackupService', () => {
         const key = await dataService.save(a)
 
         // when: backup
-        const backupService = new BackupService(db)
+        const backupService = new BackupService(db, cfg)
         const data = await backupService.backup()
 
         // then: convert to obj
@@ -33,19 +36,15 @@ describe('BackupService', () => {
         expect(dump).not.undefined
 
         // and: verify
-        const testSuiteKey = cfg.shift!.replace('/', '')
-        let res = dump['/'][testSuiteKey]['data'][key] as TestEntity
+        let res = dump[cfg.shift!]['data'][key] as TestEntity
         expect(res).not.undefined
         expect(res.test).eq("20", 'Should be a previously stored 20 in a test property')
     })
 
     it("Restore", async () => {
         // having: data to restore
-        const testSuiteKey = cfg.shift!.replace('/', '')
-        const data: Record<string, Record<string, unknown>> = {
-            '/': {}
-        };
-        data['/'][testSuiteKey] = {
+        const data: Record<string, unknown> = {};
+        data[cfg.shift!] = {
             "data": {
                 "-NlKhl6V1CSxyKlJc7vW": {
                     "test": "77"
@@ -54,7 +53,7 @@ describe('BackupService', () => {
         }
 
         // when: restore this data
-        const backupService = new BackupService(db)
+        const backupService = new BackupService(db, cfg)
         const stringValue = JSON.stringify(data);
         await backupService.restore(stringValue)
 
@@ -63,4 +62,90 @@ describe('BackupService', () => {
         expect(records.length).eq(1, 'Should be one record')
         expect(records[0].test).eq("77", 'Should have a test property value equal to 77')
     })
-})
\ No newline at end of file
+
+    it("Restore leaves sibling shifts untouched", async () => {
+        // having: a sibling shift with its own data
+        const siblingCfg = new IntegrationTestConfig()
+        siblingCfg.shift = `${cfg.shift}-sibling`
+        await db.ref(siblingCfg.buildPath("data")).set({"sibling": {"test": "untouched"}})
+
+        // and: a backup of our shift
+        await dataService.save(new TestEntity("before"))
+        const backupService = new BackupService(db, cfg)
+        const backup = await backupService.backup()
+
+        // when: data changes in both shifts and our backup is restored
+        await dataService.save(new TestEntity("after"))
+        await db.ref(siblingCfg.buildPath("data/sibling/test")).set("changed")
+        await backupService.restore(backup)
+
+        // then: sibling shift keeps its latest data
+        const sibling = await db.ref(siblingCfg.buildPath("data/sibling/test")).once("value")
+        expect(sibling.val()).eq("changed", 'Sibling shift should not be restored')
+
+        // and: our shift is back to the backup state
+        const records = await dataService.getAll()
+        expect(records.map(r => r.test)).not.include("after")
+
+        await db.ref(siblingCfg.shift!).remove()
+    })
+
+    it("Lossless backup keeps priorities", async () => {
+        // having: a legacy list ordered by priority
+        const listPath = cfg.buildPath("legacy")
+        await db.ref(`${listPath}/first`).setWithPriority({title: "first"}, 1)
+        await db.ref(`${listPath}/second`).setWithPriority({title: "second"}, 2)
+        await db.ref(`${listPath}/leaf`).setWithPriority("leaf", 3)
+
+        // and: a lossless backup
+        const losslessCfg = Object.assign(new IntegrationTestConfig(), {shift: cfg.shift})
+        losslessCfg.backup.lossless = true
+        const backupService = new BackupService(db, losslessCfg)
+        const backup = await backupService.backup()
+
+        // when: the list is lost and the backup is restored
+        await db.ref(listPath).remove()
+        await backupService.restore(backup)
+
+        // then: priorities survive the round trip
+        const snapshot = await db.ref(listPath).once("value")
+        expect(snapshot.child("first").getPriority()).eq(1)
+        expect(snapshot.child("second").getPriority()).eq(2)
+        expect(snapshot.child("leaf").getPriority()).eq(3)
+        expect(snapshot.child("leaf").val()).eq("leaf")
+
+        // and: priority ordering still works
+        const ordered = await db.ref(listPath).orderByPriority().once("value")
+        const keys: string[] = []
+        ordered.forEach(child => {
+            keys.push(child.key as string)
+        })
+        expect(keys).deep.eq(["first", "second", "leaf"])
+    })
+
+    it("Streaming backup lists whole-shift collections with a shallow query", async () => {
+        // having: collections in our shift
+        await db.ref(cfg.buildPath("streamed")).set({a: {test: "1"}, b: {test: "2"}})
+        await db.ref(cfg.buildPath("version")).set(3)
+
+        // and: a streaming backup of the whole shift
+        const directory = mkdtempSync(join(tmpdir(), "msr-backup-"))
+        const streamingCfg = Object.assign(new IntegrationTestConfig(), {shift: cfg.shift})
+        streamingCfg.backup.directory = directory
+        streamingCfg.backup.streaming = true
+        streamingCfg.backup.pageSize = 1
+
+        try {
+            // when: backup
+            const id = await new BackupService(db, streamingCfg).backup()
+
+            // then: every collection found by the shallow REST query is paged into the backup
+            const records = readFileSync(join(directory, `${id}.ndjson`), "utf-8").trim().split("\n").map(line => JSON.parse(line))
+            expect(records).to.deep.include({path: cfg.buildPath("streamed/a"), value: {test: "1"}})
+            expect(records).to.deep.include({path: cfg.buildPath("streamed/b"), value: {test: "2"}})
+            expect(records).to.deep.include({path: cfg.buildPath("version"), value: 3})
+        } finally {
+            rmSync(directory, {recursive: true, force: true})
+        }
+    })
+})
@@ -12,9 +12,25 @@ describe("DBConnector", () => {
         expect(database).not.undefined
     })
 
+    it("connect: emulator without credentials", async () => {
+        // having: emulator config w/o any credentials
+        const cfg = new IntegrationTestConfig()
+        cfg.applicationCredentials = undefined
+        cfg.credentialsJson = undefined
+
+        // when: connect and write
+        const database = await DBConnector.connect(cfg)
+        await database.ref(cfg.buildPath("emulator")).set({ok: true})
+
+        // then: data is readable
+        const snapshot = await database.ref(cfg.buildPath("emulator")).once("value")
+        expect(snapshot.val()).deep.eq({ok: true})
+    })
+
     it("connect: no credentials", async () => {
-        // having: incorrect config w/o credentials
+        // having: incorrect config w/o credentials in explicit file mode
         const cfg = new IntegrationTestConfig()
+        cfg.credentialsMode = "file"
         cfg.applicationCredentials = undefined
 
         // when: establish connection we expect an error
@@ -25,6 +41,7 @@ describe("DBConnector", () => {
         // having: incorrect config w/o credentials
         const cfg = new IntegrationTestConfig()
         cfg.databaseUrl = undefined
+        cfg.emulatorHost = undefined
 
         // when: establish connection we expect an error
         await expect(DBConnector.connect(cfg)).to.be.rejectedWith(Error, "Can't determine Firebase Database URL");
@@ -38,4 +55,35 @@ describe("DBConnector", () => {
         // when: establish connection we expect an error (either Firebase error or duplicate app error)
         await expect(DBConnector.connect(cfg)).to.be.rejected;
     })
+
+    it("connect: auth variable override enforces rules", async () => {
+        // having: rules in a separate namespace allowing writes for the migrator identity only
+        const adminCfg = new IntegrationTestConfig()
+        adminCfg.databaseUrl = "http://localhost:9000?ns=test-rules"
+        const adminDb = await DBConnector.connect(adminCfg)
+        await adminDb.setRules({rules: {"$shift": {
+            "allowed": {".read": "auth.uid === 'migrator'", ".write": "auth.uid === 'migrator'"},
+            "restricted": {".write": false},
+        }}})
+
+        const cfg = new IntegrationTestConfig()
+        cfg.databaseUrl = adminCfg.databaseUrl
+        cfg.shift = adminCfg.shift
+        cfg.databaseAuthVariableOverride = {uid: "migrator"}
+        const database = await DBConnector.connect(cfg)
+
+        try {
+            // when: writing as the limited identity
+            await database.ref(cfg.buildPath("allowed")).set(true)
+
+            // then: rules are enforced
+            await expect(database.ref(cfg.buildPath("restricted")).set(true)).to.be.rejectedWith(/permission.denied/i)
+            expect((await adminDb.ref(cfg.buildPath("allowed")).once("value")).val()).eq(true)
+        } finally {
+            await adminDb.ref(cfg.shift!).remove()
+            await adminDb.setRules({rules: {".read": true, ".write": true}})
+            await database.app.delete()
+            await adminDb.app.delete()
+        }
+    })
 })
\ No newline at end of file
@@ -2,8 +2,9 @@ import { expect, spy } from 'chai';
 import sinon from 'sinon';
 import { afterEach, after } from 'mocha';
 import { MigrationScriptExecutor } from '@migration-script-runner/core';
+import * as admin from 'firebase-admin';
 
-import { FirebaseHandler, IFirebaseDB } from '../../../src';
+import { DBConnector, FirebaseHandler, IFirebaseDB } from '../../../src';
 import { IntegrationTestConfig } from '../../IntegrationTestConfig';
 
 let processExit = sinon.stub(process, 'exit');
@@ -65,4 +66,38 @@ describe('FirebaseHandler', () => {
         expect(handler.schemaVersion).not.undefined;
     });
 
+    it('dispose', async () => {
+        // having
+        const sockets = () => process.getActiveResourcesInfo().filter(resource => resource === 'TCPSocketWrap').length;
+        const before = sockets();
+        const disposable = await FirebaseHandler.getInstance(new IntegrationTestConfig());
+        const name = disposable.db.database.app.name;
+        await disposable.db.database.ref('.info/connected').once('value');
+
+        // when
+        await disposable.dispose();
+
+        // then: app is deleted and no connection is left open
+        expect(admin.apps.map(app => app?.name)).not.include(name);
+        await new Promise(resolve => setTimeout(resolve, 100));
+        expect(sockets()).lte(before);
+    });
+
+    it('shared database', async () => {
+        // having: database initialized by the host application
+        const cfg = new IntegrationTestConfig();
+        const database = await DBConnector.connect(cfg);
+        const shared = await FirebaseHandler.getInstance(cfg, undefined, { database });
+
+        // when
+        await shared.dispose();
+
+        // then: host database stays usable
+        expect(shared.db.database).eq(database);
+        await database.ref(cfg.buildPath('shared')).set(true);
+        expect((await database.ref(cfg.buildPath('shared')).once('value')).val()).eq(true);
+        await database.ref(cfg.shift!).remove();
+        await database.app.delete();
+    });
+
 });
\ No newline at end of file
@@ -0,0 +1,53 @@
+import { expect } from "chai";
+import { DBConnector, FirebaseRunner, FirebaseConfig } from "../../src";
+
+describe("Sharded databases", () => {
+    const shift = `/shards-test-${Date.now()}`;
+    let config: FirebaseConfig;
+
+    before(() => {
+        config = new FirebaseConfig();
+        config.databaseUrl = {
+            first: "http://localhost:9000?ns=test-shard-1",
+            second: "http://localhost:9000?ns=test-shard-2",
+        };
+        config.shift = shift;
+        config.tableName = "schema_version";
+        config.folder = `${process.cwd()}/test/integration/migrations`;
+    });
+
+    after(async function() {
+        this.timeout(10000);
+        for (const shard of config.getShards()) {
+            const database = await DBConnector.connect(config.forShard(shard.name));
+            await database.ref(shift).remove();
+            await database.app.delete();
+        }
+    });
+
+    it("should migrate every shard with separate schema version tracking", async function() {
+        this.timeout(30000);
+
+        const summary = await FirebaseRunner.migrateShards({ config }, 202501010002);
+
+        expect(summary.success).to.be.true;
+        expect(summary.shards.map(shard => shard.name)).to.deep.eq(["first", "second"]);
+        summary.shards.forEach(shard => expect(shard.result?.executed).to.have.lengthOf(2));
+
+        for (const shard of config.getShards()) {
+            const database = await DBConnector.connect(config.forShard(shard.name));
+            const snapshot = await database.ref(`${shift}/schema_version`).once("value");
+            expect(snapshot.numChildren()).to.be.greaterThan(0);
+            await database.app.delete();
+        }
+    });
+
+    it("should only run pending migrations per shard", async function() {
+        this.timeout(30000);
+
+        const summary = await FirebaseRunner.migrateShards({ config });
+
+        expect(summary.success).to.be.true;
+        summary.shards.forEach(shard => expect(shard.result?.executed.length).to.be.greaterThan(0));
+    });
+});
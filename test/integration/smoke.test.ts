@@ -11,8 +11,6 @@ describe("Smoke Test: Complete Migration Workflow", () => {
 
         // Setup configuration
         const appConfig = new FirebaseConfig();
-        appConfig.applicationCredentials = process.env.GOOGLE_APPLICATION_CREDENTIALS ||
-            `${process.cwd()}/test/resources/fake-service-account.json`;
         appConfig.databaseUrl = process.env.DATABASE_URL || "http://localhost:9000?ns=test-integration";
         appConfig.shift = shift;
         appConfig.tableName = "schema_version";
@@ -1,5 +1,8 @@
 import {expect} from "chai";
-import {FirebaseConfig} from "../../src";
+import {mkdtempSync, rmSync, writeFileSync} from "node:fs";
+import {tmpdir} from "node:os";
+import {join} from "node:path";
+import {FirebaseBackupConfig, FirebaseConfig, InvalidPathError} from "../../src";
 
 describe("FirebaseConfig", () => {
 
@@ -13,55 +16,477 @@ describe("FirebaseConfig", () => {
             expect(path).eq("/test-123/users");
         });
 
-        it("should handle empty path segment", () => {
+        it("should handle nested paths", () => {
             const config = new FirebaseConfig();
             config.shift = "/test-123";
 
-            const path = config.buildPath("");
+            const path = config.buildPath("users/profile");
 
-            expect(path).eq("/test-123/");
+            expect(path).eq("/test-123/users/profile");
         });
 
-        it("should handle nested paths", () => {
-            const config = new FirebaseConfig();
-            config.shift = "/test-123";
+        const cases: [string | undefined, string, string][] = [
+            ["/test-123", "", "/test-123"],
+            [undefined, "users", "/users"],
+            [undefined, "", "/"],
+            ["", "/users/", "/users"],
+            ["test-123", "users", "/test-123/users"],
+            ["/test-123/", "/users", "/test-123/users"],
+            ["//test-123//", "users//u1/", "/test-123/users/u1"],
+            ["/a/b", "c/d/e", "/a/b/c/d/e"],
+            ["/test-123", "users/u1/.priority", "/test-123/users/u1/.priority"],
+            ["/test-123", "users/u1/.value", "/test-123/users/u1/.value"],
+            ["/test-123", "users/jöhn-döe_1 2", "/test-123/users/jöhn-döe_1 2"],
+        ];
+        cases.forEach(([shift, path, expected]) => {
+            it(`should normalize shift ${JSON.stringify(shift)} and path ${JSON.stringify(path)} to ${expected}`, () => {
+                const config = new FirebaseConfig();
+                config.shift = shift;
 
-            const path = config.buildPath("users/profile");
+                expect(config.buildPath(path)).eq(expected);
+            });
+        });
 
-            expect(path).eq("/test-123/users/profile");
+        const invalid: [string | undefined, string, string][] = [
+            ["/test-123", "users/john.doe", "john.doe"],
+            ["/test-123", "users/#1", "#1"],
+            ["/test-123", "$users", "$users"],
+            ["/test-123", "users/[0]", "[0]"],
+            ["/test-123", "users/a]b", "a]b"],
+            ["/test-123", "users/a\u0007b", "a\u0007b"],
+            ["/test-123", "users/a\u007Fb", "a\u007Fb"],
+            ["/test.123", "users", "test.123"],
+            ["/test-123", ".info/connected", ".info"],
+            ["/test-123", "a/.value/b", ".value"],
+            ["/test-123", "users/.priority/name", ".priority"],
+            [".priority", "users", ".priority"],
+        ];
+        invalid.forEach(([shift, path, segment]) => {
+            it(`should reject segment ${JSON.stringify(segment)} of ${JSON.stringify(path)}`, () => {
+                const config = new FirebaseConfig();
+                config.shift = shift;
+
+                expect(() => config.buildPath(path)).to.throw(InvalidPathError, `segment "${segment}"`)
+                    .with.property("segment", segment);
+            });
         });
 
-        it("should work with undefined shift", () => {
+        it("should reject segments longer than 768 bytes", () => {
             const config = new FirebaseConfig();
-            config.shift = undefined;
 
-            const path = config.buildPath("users");
+            expect(() => config.buildPath(`users/${"ü".repeat(385)}`)).to.throw(InvalidPathError, "longer than 768 bytes");
+            expect(config.buildPath(`users/${"u".repeat(768)}`)).eq(`/users/${"u".repeat(768)}`);
+        });
+
+        it("should reject a root path ending in a meta key", () => {
+            expect(FirebaseConfig.normalizeRoot("staging/")).eq("/staging");
+            expect(FirebaseConfig.normalizeRoot(undefined)).eq("/");
+            expect(() => FirebaseConfig.normalizeRoot("staging/.value")).to.throw(InvalidPathError, 'segment ".value" is a meta key')
+                .with.property("segment", ".value");
+        });
 
-            expect(path).eq("undefined/users");
+        it("should explain why a single key is rejected", () => {
+            expect(FirebaseConfig.checkKey("users")).eq(undefined);
+            expect(FirebaseConfig.checkKey("")).eq("is empty");
+            expect(FirebaseConfig.checkKey("a/b")).to.include("\"/\"");
+            expect(FirebaseConfig.checkKey("u".repeat(769))).eq("is longer than 768 bytes");
+        });
+
+        it("should report the full path", () => {
+            const config = new FirebaseConfig();
+            config.shift = "/test-123";
+
+            expect(() => config.buildPath("users/john.doe")).to.throw(TypeError)
+                .with.property("path", "/test-123/users/john.doe");
         });
     });
 
     describe("getRoot", () => {
-        it("should return shift with trailing slash", () => {
+        it("should return normalized shift", () => {
             const config = new FirebaseConfig();
-            config.shift = "/test-123";
+            config.shift = "/test-123/";
 
             const root = config.getRoot();
 
-            expect(root).eq("/test-123/");
+            expect(root).eq("/test-123");
         });
 
-        it("should handle undefined shift", () => {
+        it("should treat undefined shift as database root", () => {
             const config = new FirebaseConfig();
             config.shift = undefined;
 
             const root = config.getRoot();
 
-            expect(root).eq("undefined/");
+            expect(root).eq("/");
+        });
+    });
+
+    describe("shards", () => {
+        it("should list a single database as one shard", () => {
+            const config = new FirebaseConfig();
+            config.databaseUrl = "https://project-1.firebaseio.com";
+
+            expect(config.isSharded()).eq(false);
+            expect(config.getShards()).to.deep.eq([{name: "project-1", databaseUrl: "https://project-1.firebaseio.com"}]);
+            expect(config.getDatabaseUrl()).eq("https://project-1.firebaseio.com");
+        });
+
+        it("should name listed shards by namespace", () => {
+            const config = new FirebaseConfig();
+            config.databaseUrl = ["https://project-1.firebaseio.com", "http://localhost:9000?ns=project-2"];
+
+            expect(config.isSharded()).eq(true);
+            expect(config.getShards().map(shard => shard.name)).to.deep.eq(["project-1", "project-2"]);
+        });
+
+        it("should use the names of a shard map", () => {
+            const config = new FirebaseConfig();
+            config.databaseUrl = {eu: "https://project-eu.firebaseio.com", us: "https://project-us.firebaseio.com"};
+
+            expect(config.getShards()).to.deep.eq([
+                {name: "eu", databaseUrl: "https://project-eu.firebaseio.com"},
+                {name: "us", databaseUrl: "https://project-us.firebaseio.com"},
+            ]);
+        });
+
+        it("should reject listed shards with the same name", () => {
+            const config = new FirebaseConfig();
+            config.databaseUrl = ["https://project-1.firebaseio.com", "https://project-1.europe-west1.firebasedatabase.app"];
+
+            expect(() => config.getShards()).to.throw(TypeError, "Duplicate shard \"project-1\"");
+        });
+
+        it("should create a single-shard copy", () => {
+            const config = new FirebaseConfig();
+            config.shift = "/prod";
+            config.databaseUrl = {eu: "https://project-eu.firebaseio.com", us: "https://project-us.firebaseio.com"};
+
+            const shard = config.forShard("us");
+
+            expect(shard).to.be.instanceOf(FirebaseConfig);
+            expect(shard.databaseUrl).eq("https://project-us.firebaseio.com");
+            expect(shard.buildPath("users")).eq("/prod/users");
+            expect(config.isSharded()).eq(true);
+        });
+
+        it("should reject unknown shards", () => {
+            const config = new FirebaseConfig();
+            config.databaseUrl = {eu: "https://project-eu.firebaseio.com"};
+
+            expect(() => config.forShard("us")).to.throw(RangeError, "Unknown shard \"us\", expected one of: eu");
+        });
+
+        it("should refuse a single database URL for sharded config", () => {
+            const config = new FirebaseConfig();
+            config.databaseUrl = {eu: "https://project-eu.firebaseio.com", us: "https://project-us.firebaseio.com"};
+
+            expect(() => config.getDatabaseUrl()).to.throw(TypeError, "databaseUrl lists shards (eu, us)");
+        });
+    });
+
+    describe("validate", () => {
+        const serviceAccount = {project_id: "project-1", client_email: "migrator@project-1.iam.gserviceaccount.com", private_key: "KEY"};
+        let directory: string;
+
+        const createConfig = (values: Partial<FirebaseConfig>) => {
+            const config = new FirebaseConfig();
+            config.databaseUrl = "https://project-1-default-rtdb.firebaseio.com";
+            config.applicationCredentials = undefined;
+            config.credentialsJson = JSON.stringify(serviceAccount);
+            config.emulatorHost = undefined;
+            return Object.assign(config, values);
+        };
+        const codes = (config: FirebaseConfig) => config.validate().map(issue => `${issue.severity}:${issue.code}`);
+
+        beforeEach(() => {
+            directory = mkdtempSync(join(tmpdir(), "msr-config-"));
+        });
+
+        afterEach(() => {
+            rmSync(directory, {recursive: true, force: true});
+        });
+
+        it("should accept a valid configuration", () => {
+            expect(createConfig({}).validate()).to.deep.eq([]);
+        });
+
+        it("should require a database URL unless an emulator is configured", () => {
+            expect(codes(createConfig({databaseUrl: undefined}))).to.deep.eq(["error:missing-database-url"]);
+            expect(codes(createConfig({databaseUrl: undefined, emulatorHost: "localhost:9000"}))).to.deep.eq([]);
+        });
+
+        it("should report malformed database URLs of every shard", () => {
+            const config = createConfig({databaseUrl: {eu: "project-1-default-rtdb", us: "ftp://project-1-default-rtdb.firebaseio.com"}});
+
+            expect(config.validate()).to.have.length(2);
+            expect(config.validate()[0]).to.deep.include({code: "invalid-database-url", field: "databaseUrl"});
+        });
+
+        it("should report unreadable credentials files", () => {
+            const file = join(directory, "broken.json");
+            writeFileSync(file, "{not json");
+
+            const missing = createConfig({credentialsJson: undefined, applicationCredentials: join(directory, "missing.json")}).validate();
+            const broken = createConfig({credentialsJson: undefined, applicationCredentials: file}).validate();
+
+            expect(missing).to.have.length(1);
+            expect(missing[0]).to.deep.include({code: "unreadable-credentials", field: "applicationCredentials"});
+            expect(missing[0].message).to.include("Cannot read service account key file");
+            expect(broken[0].message).to.include(`Service account JSON (${file})`);
+        });
+
+        it("should read the project of a credentials file", () => {
+            const file = join(directory, "key.json");
+            writeFileSync(file, JSON.stringify(serviceAccount));
+
+            expect(createConfig({credentialsJson: undefined, applicationCredentials: file}).validate()).to.deep.eq([]);
+        });
+
+        it("should report credentials of another project", () => {
+            const config = createConfig({databaseUrl: "https://project-2-default-rtdb.europe-west1.firebasedatabase.app"});
+
+            expect(codes(config)).to.deep.eq(["error:project-mismatch"]);
+            expect(config.validate()[0].message).to.include("\"project-1\"").and.include("\"project-2\"");
+        });
+
+        it("should only warn about custom instances of another name", () => {
+            expect(codes(createConfig({databaseUrl: "https://project-1.firebaseio.com"}))).to.deep.eq([]);
+            expect(codes(createConfig({databaseUrl: "https://analytics.firebaseio.com"}))).to.deep.eq(["warning:project-mismatch"]);
+        });
+
+        it("should skip credentials checks for the emulator and ADC", () => {
+            expect(codes(createConfig({databaseUrl: "http://localhost:9000?ns=project-2", credentialsJson: "{not json"}))).to.deep.eq([]);
+            expect(codes(createConfig({credentialsMode: "adc", credentialsJson: "{not json"}))).to.deep.eq([]);
+        });
+
+        it("should report invalid shifts", () => {
+            const issues = createConfig({shift: "/staging.eu"}).validate();
+
+            expect(issues).to.have.length(1);
+            expect(issues[0]).to.deep.include({code: "invalid-shift", severity: "error", field: "shift"});
+            expect(issues[0].message).to.include("segment \"staging.eu\"");
+        });
+
+        it("should report a shift that is a meta key", () => {
+            const issues = createConfig({shift: ".priority"}).validate();
+
+            expect(issues).to.have.length(1);
+            expect(issues[0]).to.deep.include({code: "invalid-shift", severity: "error", field: "shift"});
+            expect(issues[0].message).to.include("segment \".priority\" is a meta key");
+        });
+
+        it("should report lock timeouts out of range", () => {
+            const config = createConfig({});
+
+            [999, 24 * 60 * 60 * 1000 + 1, NaN].forEach(timeout => {
+                config.locking = {...config.locking, timeout};
+                expect(codes(config)).to.deep.eq(["error:lock-timeout-out-of-range"]);
+            });
+            config.locking = {...config.locking, timeout: 600000};
+            expect(codes(config)).to.deep.eq([]);
+        });
+    });
+
+    describe("profiles", () => {
+        const createConfig = () => {
+            const config = new FirebaseConfig();
+            config.profile = undefined;
+            config.databaseUrl = "https://project-dev-default-rtdb.firebaseio.com";
+            config.shift = "/dev";
+            config.profiles = {
+                staging: {databaseUrl: "https://project-staging-default-rtdb.firebaseio.com", shift: "/staging"},
+                prod: {
+                    databaseUrl: "https://project-default-rtdb.firebaseio.com",
+                    shift: "/prod",
+                    credentialsMode: "adc",
+                    locking: {enabled: true},
+                    backup: {keepLast: 10},
+                },
+            };
+            return config;
+        };
+
+        it("should keep the base settings without a profile", () => {
+            const config = FirebaseConfig.applyProfile(createConfig());
+
+            expect(config.shift).eq("/dev");
+            expect(config.resolvedProfile).to.be.undefined;
+        });
+
+        it("should replace the base settings with the profile", () => {
+            const config = FirebaseConfig.applyProfile(createConfig(), "staging");
+
+            expect(config.databaseUrl).eq("https://project-staging-default-rtdb.firebaseio.com");
+            expect(config.buildPath("users")).eq("/staging/users");
+            expect(config.tableName).eq("schema_version");
+            expect(config.resolvedProfile).to.deep.eq({name: "staging", source: "config", settings: ["databaseUrl", "shift"]});
+        });
+
+        it("should merge locking and backup settings", () => {
+            const config = createConfig();
+            config.locking = {...config.locking, timeout: 120000};
+            config.backup.keepDays = 7;
+
+            FirebaseConfig.applyProfile(config, "prod", "cli");
+
+            expect(config.locking).to.deep.include({enabled: true, timeout: 120000});
+            expect(config.backup).to.be.instanceOf(FirebaseBackupConfig);
+            expect(config.backup).to.deep.include({keepLast: 10, keepDays: 7});
+            expect(config.credentialsMode).eq("adc");
+            expect(config.resolvedProfile?.source).eq("cli");
+        });
+
+        it("should select the profile from MSR_PROFILE", () => {
+            const originalValue = process.env.MSR_PROFILE;
+            process.env.MSR_PROFILE = "staging";
+
+            const config = createConfig();
+            expect(FirebaseConfig.applyProfile(config).shift).eq("/staging");
+            expect(config.resolvedProfile?.source).eq("env");
+            expect(new FirebaseConfig().profile).eq("staging");
+
+            if (originalValue) {
+                process.env.MSR_PROFILE = originalValue;
+            } else {
+                delete process.env.MSR_PROFILE;
+            }
+        });
+
+        it("should apply a profile only once", () => {
+            const config = FirebaseConfig.applyProfile(createConfig(), "staging");
+            config.shift = "/override";
+
+            expect(FirebaseConfig.applyProfile(config).shift).eq("/override");
+        });
+
+        it("should reject unknown profiles", () => {
+            expect(() => FirebaseConfig.applyProfile(createConfig(), "qa")).to.throw(RangeError, "Unknown profile \"qa\", expected one of: staging, prod");
+            expect(() => FirebaseConfig.applyProfile(new FirebaseConfig(), "qa")).to.throw(RangeError, "no profiles configured");
+        });
+    });
+
+    describe("getEmulatorHost", () => {
+        const createConfig = () => {
+            const config = new FirebaseConfig();
+            config.emulatorHost = undefined;
+            config.databaseUrl = "https://test.firebaseio.com";
+            return config;
+        };
+
+        it("should detect the emulator from configuration", () => {
+            const config = createConfig();
+            expect(config.getEmulatorHost()).to.be.undefined;
+
+            config.databaseUrl = "http://127.0.0.1:9000/?ns=demo";
+            expect(config.getEmulatorHost()).eq("127.0.0.1:9000");
+
+            config.emulatorHost = "emulator:9100";
+            expect(config.getEmulatorHost()).eq("emulator:9100");
+        });
+
+        it("should ignore invalid database URLs", () => {
+            const config = createConfig();
+            config.databaseUrl = "not a url";
+
+            expect(config.getEmulatorHost()).to.be.undefined;
+        });
+    });
+
+    describe("getCredentialsMode", () => {
+        it("should detect the mode from configured credentials", () => {
+            const config = new FirebaseConfig();
+            config.applicationCredentials = undefined;
+            config.credentialsJson = undefined;
+            expect(config.getCredentialsMode()).eq("adc");
+
+            config.applicationCredentials = "/path/to/key.json";
+            expect(config.getCredentialsMode()).eq("file");
+
+            config.credentialsJson = "{}";
+            expect(config.getCredentialsMode()).eq("json");
+
+            config.credentialsMode = "adc";
+            expect(config.getCredentialsMode()).eq("adc");
+        });
+    });
+
+    describe("parseServiceAccount", () => {
+        const serviceAccount = {type: "service_account", project_id: "test", client_email: "sa@test.iam.gserviceaccount.com"};
+
+        it("should restore escaped line breaks in the private key", () => {
+            const json = JSON.stringify({...serviceAccount, private_key: "-----BEGIN-----\\nKEY\\n-----END-----\\n"});
+
+            expect(FirebaseConfig.parseServiceAccount(json)).to.deep.include({private_key: "-----BEGIN-----\nKEY\n-----END-----\n"});
+        });
+
+        it("should decode base64-encoded JSON", () => {
+            const json = JSON.stringify({...serviceAccount, private_key: "KEY"});
+
+            expect(FirebaseConfig.parseServiceAccount(Buffer.from(json).toString("base64"))).to.deep.include({project_id: "test"});
+        });
+
+        it("should reject values that are not JSON", () => {
+            expect(() => FirebaseConfig.parseServiceAccount("not json"))
+                .to.throw(TypeError, "neither valid JSON nor base64-encoded JSON");
+        });
+
+        it("should list missing required fields", () => {
+            const json = JSON.stringify({type: "service_account", project_id: "test", private_key: ""});
+
+            expect(() => FirebaseConfig.parseServiceAccount(json))
+                .to.throw(TypeError, "Service account key (credentialsJson) is missing required fields: client_email, private_key");
+        });
+    });
+
+    describe("backup", () => {
+        it("should back up the whole shift by default", () => {
+            const config = new FirebaseConfig();
+
+            expect(config.backup).to.be.instanceOf(FirebaseBackupConfig);
+            expect(config.backup.nodes).to.deep.eq([]);
+            expect(config.backup.excludeNodes).to.deep.eq([]);
+        });
+
+        it("should limit restore writes to 1 MB by default", () => {
+            expect(new FirebaseConfig().backup.maxBatchSize).eq(1024 * 1024);
+        });
+
+        it("should not configure retention by default", () => {
+            const config = new FirebaseConfig();
+
+            expect(config.backup.keepLast).to.be.undefined;
+            expect(config.backup.keepDays).to.be.undefined;
+            expect(config.backup.keepPerVersion).eq(false);
         });
     });
 
     describe("environment variables", () => {
+        it("should read backup encryption key from env", () => {
+            const originalKey = process.env.MSR_FIREBASE_BACKUP_KEY;
+            const originalKeyFile = process.env.MSR_FIREBASE_BACKUP_KEY_FILE;
+
+            // Set env vars
+            process.env.MSR_FIREBASE_BACKUP_KEY = "a".repeat(64);
+            process.env.MSR_FIREBASE_BACKUP_KEY_FILE = "/run/secrets/backup.key";
+
+            const config = new FirebaseConfig();
+
+            expect(config.backup.encryptionKey).eq("a".repeat(64));
+            expect(config.backup.encryptionKeyFile).eq("/run/secrets/backup.key");
+
+            // Restore
+            if (originalKey) {
+                process.env.MSR_FIREBASE_BACKUP_KEY = originalKey;
+            } else {
+                delete process.env.MSR_FIREBASE_BACKUP_KEY;
+            }
+            if (originalKeyFile) {
+                process.env.MSR_FIREBASE_BACKUP_KEY_FILE = originalKeyFile;
+            } else {
+                delete process.env.MSR_FIREBASE_BACKUP_KEY_FILE;
+            }
+        });
+
         it("should read GOOGLE_APPLICATION_CREDENTIALS from env", () => {
             const originalValue = process.env.GOOGLE_APPLICATION_CREDENTIALS;
 
@@ -98,6 +523,29 @@ describe("FirebaseConfig", () => {
             }
         });
 
+        it("should read MSR_FIREBASE_SHIFT from env", () => {
+            const originalValue = process.env.MSR_FIREBASE_SHIFT;
+
+            // Set env var
+            process.env.MSR_FIREBASE_SHIFT = "production";
+
+            const config = new FirebaseConfig();
+
+            expect(config.shift).eq("production");
+            expect(config.buildPath("users")).eq("/production/users");
+
+            // Restore
+            if (originalValue) {
+                process.env.MSR_FIREBASE_SHIFT = originalValue;
+            } else {
+                delete process.env.MSR_FIREBASE_SHIFT;
+            }
+        });
+
+        it("should wait 10 seconds for the connection by default", () => {
+            expect(new FirebaseConfig().connectionTimeout).eq(10000);
+        });
+
         it("should use default tableName", () => {
             const config = new FirebaseConfig();
 
@@ -0,0 +1,100 @@
+import {expect} from "chai";
+import {mkdtempSync, rmSync, writeFileSync} from "node:fs";
+import {randomBytes} from "node:crypto";
+import {tmpdir} from "node:os";
+import {join} from "node:path";
+import {BackupCodec, FirebaseBackupConfig} from "../../src";
+
+describe("BackupCodec", () => {
+    const key = randomBytes(32);
+    const content = Buffer.from(JSON.stringify({"/staging": {users: {u1: {email: "a@example.com"}}}}));
+
+    describe("resolveKey", () => {
+        let directory: string;
+
+        beforeEach(() => {
+            directory = mkdtempSync(join(tmpdir(), "msr-key-"));
+        });
+
+        afterEach(() => {
+            rmSync(directory, {recursive: true, force: true});
+        });
+
+        const createConfig = (values: Partial<FirebaseBackupConfig>) => {
+            const cfg = new FirebaseBackupConfig();
+            cfg.encryptionKey = undefined;
+            cfg.encryptionKeyFile = undefined;
+            return Object.assign(cfg, values);
+        };
+
+        it("should return undefined when encryption is not configured", () => {
+            expect(BackupCodec.resolveKey(createConfig({}))).to.be.undefined;
+        });
+
+        it("should parse hex key", () => {
+            expect(BackupCodec.resolveKey(createConfig({encryptionKey: key.toString("hex")}))).to.deep.eq(key);
+        });
+
+        it("should parse base64 key", () => {
+            expect(BackupCodec.resolveKey(createConfig({encryptionKey: key.toString("base64")}))).to.deep.eq(key);
+        });
+
+        it("should read key file", () => {
+            const raw = join(directory, "raw.key");
+            const text = join(directory, "text.key");
+            writeFileSync(raw, key);
+            writeFileSync(text, `${key.toString("hex")}\n`);
+
+            expect(BackupCodec.resolveKey(createConfig({encryptionKeyFile: raw}))).to.deep.eq(key);
+            expect(BackupCodec.resolveKey(createConfig({encryptionKeyFile: text}))).to.deep.eq(key);
+        });
+
+        it("should reject keys of wrong length", () => {
+            expect(() => BackupCodec.resolveKey(createConfig({encryptionKey: "secret"})))
+                .to.throw(TypeError, "must be 32 bytes");
+        });
+    });
+
+    describe("encode/decode", () => {
+        it("should keep content unchanged without encoding", () => {
+            const encoded = BackupCodec.encode(content, {});
+
+            expect(encoded).to.deep.eq(content);
+            expect(BackupCodec.isEncoded(encoded)).eq(false);
+        });
+
+        it("should round-trip compressed content", () => {
+            const encoded = BackupCodec.encode(content, {compress: true});
+
+            expect(BackupCodec.isCompressed(encoded)).eq(true);
+            expect(BackupCodec.decode(encoded)).to.deep.eq(content);
+        });
+
+        it("should round-trip compressed and encrypted content", () => {
+            const encoded = BackupCodec.encode(content, {compress: true, key});
+
+            expect(BackupCodec.isEncrypted(encoded)).eq(true);
+            expect(encoded.includes("a@example.com")).eq(false);
+            expect(BackupCodec.decode(encoded, key)).to.deep.eq(content);
+        });
+
+        it("should use a fresh IV for every encoding", () => {
+            expect(BackupCodec.encode(content, {key})).not.to.deep.eq(BackupCodec.encode(content, {key}));
+        });
+
+        it("should require a key for encrypted content", () => {
+            const encoded = BackupCodec.encode(content, {key});
+
+            expect(() => BackupCodec.decode(encoded)).to.throw(TypeError, "no encryption key");
+        });
+
+        it("should reject wrong key and tampered content", () => {
+            const encoded = BackupCodec.encode(content, {key});
+            const tampered = Buffer.from(encoded);
+            tampered[tampered.length - 20] ^= 1;
+
+            expect(() => BackupCodec.decode(encoded, randomBytes(32))).to.throw("Unable to decrypt backup");
+            expect(() => BackupCodec.decode(tampered, key)).to.throw("Unable to decrypt backup");
+        });
+    });
+});
@@ -0,0 +1,97 @@
+import {expect} from "chai";
+import {BackupRetention, IBackupManifest} from "../../src";
+
+describe("BackupRetention", () => {
+    const DAY = 24 * 60 * 60 * 1000;
+    const now = Date.UTC(2025, 0, 31);
+
+    const createManifest = (id: string, daysAgo: number, migrationVersion: number | null = null): IBackupManifest => ({
+        id,
+        timestamp: now - daysAgo * DAY,
+        createdAt: new Date(now - daysAgo * DAY).toISOString(),
+        shift: null,
+        databaseUrl: null,
+        nodes: ["/"],
+        format: "json",
+        file: `${id}.json`,
+        compression: null,
+        encryption: null,
+        size: 10,
+        sha256: "",
+        migrationVersion,
+    });
+
+    // Oldest first, as returned by BackupStorage.list()
+    const manifests = [
+        createManifest("b1", 30, 1),
+        createManifest("b2", 20, 1),
+        createManifest("b3", 10, 2),
+        createManifest("b4", 5, 3),
+        createManifest("b5", 1, 3),
+    ];
+    const ids = (list: IBackupManifest[]) => list.map(manifest => manifest.id);
+
+    it("should keep everything when no rule is configured", () => {
+        const plan = BackupRetention.select(manifests, {}, now);
+
+        expect(ids(plan.keep)).to.deep.eq(["b5", "b4", "b3", "b2", "b1"]);
+        expect(plan.prune).to.deep.eq([]);
+    });
+
+    it("should keep the most recent backups", () => {
+        const plan = BackupRetention.select(manifests, {keepLast: 2}, now);
+
+        expect(ids(plan.keep)).to.deep.eq(["b5", "b4"]);
+        expect(ids(plan.prune)).to.deep.eq(["b3", "b2", "b1"]);
+    });
+
+    it("should prune all backups with keepLast 0 and no other rule", () => {
+        const plan = BackupRetention.select(manifests, {keepLast: 0}, now);
+
+        expect(plan.keep).to.deep.eq([]);
+        expect(plan.prune).to.have.length(5);
+    });
+
+    it("should keep backups within the age limit", () => {
+        const plan = BackupRetention.select(manifests, {keepDays: 10}, now);
+
+        expect(ids(plan.keep)).to.deep.eq(["b5", "b4", "b3"]);
+        expect(ids(plan.prune)).to.deep.eq(["b2", "b1"]);
+    });
+
+    it("should keep the most recent backup of every migration version", () => {
+        const plan = BackupRetention.select(manifests, {keepPerVersion: true}, now);
+
+        expect(ids(plan.keep)).to.deep.eq(["b5", "b3", "b2"]);
+        expect(ids(plan.prune)).to.deep.eq(["b4", "b1"]);
+    });
+
+    it("should treat backups without migration version as one version", () => {
+        const plan = BackupRetention.select([createManifest("a", 2), createManifest("b", 1)], {keepPerVersion: true}, now);
+
+        expect(ids(plan.keep)).to.deep.eq(["b"]);
+        expect(ids(plan.prune)).to.deep.eq(["a"]);
+    });
+
+    it("should keep backups retained by any rule", () => {
+        const plan = BackupRetention.select(manifests, {keepLast: 1, keepDays: 7, keepPerVersion: true}, now);
+
+        expect(ids(plan.keep)).to.deep.eq(["b5", "b4", "b3", "b2"]);
+        expect(ids(plan.prune)).to.deep.eq(["b1"]);
+    });
+
+    it("should not depend on input order", () => {
+        const plan = BackupRetention.select([...manifests].reverse(), {keepLast: 2}, now);
+
+        expect(ids(plan.keep)).to.deep.eq(["b5", "b4"]);
+    });
+
+    it("should reject invalid settings", () => {
+        expect(() => BackupRetention.select(manifests, {keepLast: -1}, now))
+            .to.throw(RangeError, "keepLast");
+        expect(() => BackupRetention.select(manifests, {keepLast: NaN}, now))
+            .to.throw(RangeError, "keepLast");
+        expect(() => BackupRetention.select(manifests, {keepDays: -2}, now))
+            .to.throw(RangeError, "keepDays");
+    });
+});
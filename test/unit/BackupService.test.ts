@@ -1,10 +1,29 @@
 import {expect} from "chai";
 import sinon from "sinon";
 import {database} from "firebase-admin";
-import {BackupService} from "../../src";
+import {mkdtempSync, readdirSync, rmSync, readFileSync, writeFileSync} from "node:fs";
+import {randomBytes} from "node:crypto";
+import {tmpdir} from "node:os";
+import {join} from "node:path";
+import {BackupService, BackupStorage, FirebaseConfig} from "../../src";
+import {MemoryDatabase} from "../MemoryDatabase";
 
 describe("BackupService", () => {
 
+    const createConfig = (shift?: string) => {
+        const cfg = new FirebaseConfig();
+        cfg.shift = shift;
+        return cfg;
+    };
+
+    beforeEach(() => {
+        sinon.stub(globalThis, "fetch").callsFake(MemoryDatabase.fetch);
+    });
+
+    afterEach(() => {
+        sinon.restore();
+    });
+
     describe("deleteBackup", () => {
         it("should clear the last backup", async () => {
             const mockDatabase = {
@@ -15,7 +34,7 @@ describe("BackupService", () => {
                 })
             } as unknown as database.Database;
 
-            const service = new BackupService(mockDatabase, ["/test/root"]);
+            const service = new BackupService(mockDatabase, createConfig("/test/root"));
 
             // Create a backup first
             await service.backup();
@@ -32,7 +51,7 @@ describe("BackupService", () => {
 
         it("should be safe to call when no backup exists", () => {
             const mockDatabase = {} as database.Database;
-            const service = new BackupService(mockDatabase, ["/test/root"]);
+            const service = new BackupService(mockDatabase, createConfig("/test/root"));
 
             // Should not throw when no backup exists
             expect(() => service.deleteBackup()).to.not.throw();
@@ -45,7 +64,7 @@ describe("BackupService", () => {
     describe("restore", () => {
         it("should throw error when no backup data available", async () => {
             const mockDatabase = {} as database.Database;
-            const service = new BackupService(mockDatabase, ["/test/root"]);
+            const service = new BackupService(mockDatabase, createConfig("/test/root"));
 
             // Try to restore without creating backup first
             await expect(service.restore()).to.be.rejectedWith(ReferenceError, "No backup data available to restore");
@@ -70,7 +89,7 @@ describe("BackupService", () => {
                 })
             } as unknown as database.Database;
 
-            const service = new BackupService(mockDatabase, ["/test/root"]);
+            const service = new BackupService(mockDatabase, createConfig("/test/root"));
 
             // Create a backup
             await service.backup();
@@ -91,7 +110,7 @@ describe("BackupService", () => {
                 })
             } as unknown as database.Database;
 
-            const service = new BackupService(mockDatabase, ["/test/root"]);
+            const service = new BackupService(mockDatabase, createConfig("/test/root"));
             const backupJson = JSON.stringify(mockData);
 
             // Restore from provided backup
@@ -114,7 +133,7 @@ describe("BackupService", () => {
                 })
             } as unknown as database.Database;
 
-            const service = new BackupService(mockDatabase, ["/test/root"]);
+            const service = new BackupService(mockDatabase, createConfig("/test/root"));
             await service.backup();
 
             // Verify backup was stored (accessing private property for testing)
@@ -133,7 +152,7 @@ describe("BackupService", () => {
                 })
             } as unknown as database.Database;
 
-            const service = new BackupService(mockDatabase, ["/test/root"]);
+            const service = new BackupService(mockDatabase, createConfig("/test/root"));
             await service.backup();
 
             // Verify backup was stored even for null data
@@ -143,4 +162,1142 @@ describe("BackupService", () => {
             expect(JSON.parse(lastBackup)).to.deep.eq({"/test/root": null});
         });
     });
+
+    describe("scope", () => {
+        it("should back up only the configured shift subtree", async () => {
+            const refStub = sinon.stub().returns({
+                once: sinon.stub().resolves({val: sinon.stub().returns({users: {}})})
+            });
+            const mockDatabase = {ref: refStub} as unknown as database.Database;
+
+            const service = new BackupService(mockDatabase, createConfig("staging"));
+            const backup = JSON.parse(await service.backup());
+
+            sinon.assert.calledOnceWithExactly(refStub, "/staging");
+            expect(backup).to.have.all.keys("/staging");
+        });
+
+        it("should back up the whole database when no shift is configured", async () => {
+            const mockDatabase = {ref: sinon.stub()} as unknown as database.Database;
+
+            const service = new BackupService(mockDatabase, createConfig());
+
+            expect(service.getNodes()).to.deep.eq(["/"]);
+        });
+
+        it("should resolve selected nodes through the shift", () => {
+            const mockDatabase = {ref: sinon.stub()} as unknown as database.Database;
+            const cfg = createConfig("staging");
+            cfg.backup.nodes = ["users", "/posts/"];
+
+            const service = new BackupService(mockDatabase, cfg);
+
+            expect(service.getNodes()).to.deep.eq(["/staging/users", "/staging/posts"]);
+        });
+
+        it("should restore only into the configured shift subtree", async () => {
+            const setStub = sinon.stub().resolves();
+            const refStub = sinon.stub().returns({set: setStub});
+            const mockDatabase = {ref: refStub} as unknown as database.Database;
+
+            const service = new BackupService(mockDatabase, createConfig("staging"));
+            await service.restore(JSON.stringify({"/staging": {users: {u1: {name: "A"}}}}));
+
+            sinon.assert.calledOnceWithExactly(refStub, "/staging");
+            sinon.assert.calledOnceWithExactly(setStub, {users: {u1: {name: "A"}}});
+        });
+
+        it("should reject backups that contain sibling shifts", async () => {
+            const setStub = sinon.stub().resolves();
+            const mockDatabase = {ref: sinon.stub().returns({set: setStub})} as unknown as database.Database;
+
+            const service = new BackupService(mockDatabase, createConfig("staging"));
+            const backup = JSON.stringify({"/staging": {}, "/production": {users: {}}});
+
+            await expect(service.restore(backup)).to.be.rejectedWith(RangeError, "/production");
+            sinon.assert.notCalled(setStub);
+        });
+
+        it("should reject backups of the whole database when a shift is configured", async () => {
+            const setStub = sinon.stub().resolves();
+            const mockDatabase = {ref: sinon.stub().returns({set: setStub})} as unknown as database.Database;
+
+            const service = new BackupService(mockDatabase, createConfig("staging"));
+
+            await expect(service.restore(JSON.stringify({"/": {}}))).to.be.rejectedWith(RangeError);
+            sinon.assert.notCalled(setStub);
+        });
+    });
+
+    describe("node selection", () => {
+        it("should use nodes from config", () => {
+            const cfg = createConfig("staging");
+            cfg.backup.nodes = ["users", "posts"];
+
+            const service = new BackupService({ref: sinon.stub()} as unknown as database.Database, cfg);
+
+            expect(service.getNodes()).to.deep.eq(["/staging/users", "/staging/posts"]);
+        });
+
+        it("should skip excluded nodes when backing up", async () => {
+            const cfg = createConfig("staging");
+            cfg.backup.excludeNodes = ["analytics", "users/u2/logs"];
+            const mockDatabase = {
+                ref: sinon.stub().returns({
+                    once: sinon.stub().resolves({
+                        val: sinon.stub().returns({
+                            analytics: {big: true},
+                            posts: {p1: {title: "A"}},
+                            users: {u1: {name: "A"}, u2: {name: "B", logs: {l1: 1}}}
+                        })
+                    })
+                })
+            } as unknown as database.Database;
+
+            const service = new BackupService(mockDatabase, cfg);
+            const backup = JSON.parse(await service.backup());
+
+            expect(backup).to.deep.eq({
+                "/staging/posts": {p1: {title: "A"}},
+                "/staging/users/u1": {name: "A"},
+                "/staging/users/u2/name": "B"
+            });
+        });
+
+        it("should not overwrite excluded nodes on restore", async () => {
+            const cfg = createConfig("staging");
+            cfg.backup.excludeNodes = ["analytics"];
+            const refStub = sinon.stub().returns({set: sinon.stub().resolves()});
+            const mockDatabase = {ref: refStub} as unknown as database.Database;
+
+            const service = new BackupService(mockDatabase, cfg);
+            await service.restore(JSON.stringify({"/staging": {analytics: {big: true}, users: {u1: {}}}}));
+
+            sinon.assert.calledOnceWithExactly(refStub, "/staging/users");
+        });
+
+        it("should resolve excluded nodes through the shift", () => {
+            const cfg = createConfig("staging");
+            cfg.backup.nodes = ["posts"];
+            cfg.backup.excludeNodes = ["posts/drafts"];
+
+            const service = new BackupService({ref: sinon.stub()} as unknown as database.Database, cfg);
+
+            expect(service.getNodes()).to.deep.eq(["/staging/posts"]);
+            expect(service.getExcludedNodes()).to.deep.eq(["/staging/posts/drafts"]);
+        });
+    });
+
+    describe("persistence", () => {
+        let directory: string;
+
+        beforeEach(() => {
+            directory = mkdtempSync(join(tmpdir(), "msr-backup-"));
+        });
+
+        afterEach(() => {
+            rmSync(directory, {recursive: true, force: true});
+        });
+
+        const createDatabase = (data: Record<string, unknown>, setStub = sinon.stub().resolves()) => ({
+            ref: sinon.stub().callsFake((path: string) => ({
+                once: sinon.stub().resolves({val: () => data[path] ?? null}),
+                set: setStub
+            }))
+        } as unknown as database.Database);
+
+        it("should write backup file and manifest to configured directory", async () => {
+            const cfg = createConfig("staging");
+            cfg.databaseUrl = "https://test.firebaseio.com";
+            cfg.backup.directory = directory;
+            const mockDatabase = createDatabase({
+                "/staging": {users: {u1: {name: "A"}}},
+                "/staging/schema_version": {m1: {timestamp: 202501010001}, m2: {timestamp: 202501010002}}
+            });
+
+            const service = new BackupService(mockDatabase, cfg);
+            const id = await service.backup();
+
+            const manifest = JSON.parse(readFileSync(join(directory, `${id}.manifest.json`), "utf-8"));
+            const content = readFileSync(join(directory, manifest.file));
+            expect(manifest).to.include({
+                id,
+                shift: "/staging",
+                databaseUrl: "https://test.firebaseio.com",
+                size: content.length,
+                sha256: BackupStorage.checksum(content),
+                migrationVersion: 202501010002
+            });
+            expect(manifest.nodes).to.deep.eq(["/staging"]);
+            expect(JSON.parse(content.toString())).to.deep.eq({"/staging": {users: {u1: {name: "A"}}}});
+        });
+
+        it("should list persisted backups", async () => {
+            const cfg = createConfig("staging");
+            cfg.backup.directory = directory;
+
+            const service = new BackupService(createDatabase({}), cfg);
+            const id = await service.backup();
+
+            const backups = await service.listBackups();
+            expect(backups.map(b => b.id)).to.deep.eq([id]);
+        });
+
+        it("should list backups of the same shift however it is written", async () => {
+            const cfg = createConfig("staging");
+            cfg.backup.directory = directory;
+            const id = await new BackupService(createDatabase({}), cfg).backup();
+            const storage = new BackupStorage(directory);
+            const timestamp = Date.UTC(2025, 0, 1);
+            await storage.save(BackupStorage.generateId(timestamp), "{}", {
+                timestamp,
+                createdAt: new Date(timestamp).toISOString(),
+                shift: "staging",
+                databaseUrl: null,
+                nodes: ["/staging"],
+                migrationVersion: null
+            });
+
+            const cliConfig = createConfig("/staging/");
+            cliConfig.backup.directory = directory;
+            const backups = await new BackupService(createDatabase({}), cliConfig).listBackups();
+
+            expect(backups.map(b => b.id)).to.have.members([id, BackupStorage.generateId(timestamp)]);
+        });
+
+        it("should return empty list when persistence is disabled", async () => {
+            const service = new BackupService(createDatabase({}), createConfig("staging"));
+
+            expect(await service.listBackups()).to.deep.eq([]);
+        });
+
+        describe("pruning", () => {
+            const DAY = 24 * 60 * 60 * 1000;
+            const now = Date.UTC(2025, 0, 31);
+
+            const saveBackups = async () => {
+                const storage = new BackupStorage(directory);
+                for (const [daysAgo, migrationVersion] of [[30, 1], [20, 1], [10, 2], [1, 2]]) {
+                    const timestamp = now - daysAgo * DAY;
+                    await storage.save(BackupStorage.generateId(timestamp), "{}", {
+                        timestamp,
+                        createdAt: new Date(timestamp).toISOString(),
+                        shift: "staging",
+                        databaseUrl: null,
+                        nodes: ["/staging"],
+                        migrationVersion
+                    });
+                }
+                return storage;
+            };
+
+            it("should list backups to prune without deleting them", async () => {
+                const cfg = createConfig("staging");
+                cfg.backup.directory = directory;
+                cfg.backup.keepLast = 1;
+                const storage = await saveBackups();
+
+                const plan = await new BackupService(createDatabase({}), cfg).planPrune(now);
+
+                expect(plan.keep.map(b => b.id)).to.deep.eq(["backup-20250130-000000-000"]);
+                expect(plan.prune.map(b => b.id)).to.deep.eq([
+                    "backup-20250121-000000-000", "backup-20250111-000000-000", "backup-20250101-000000-000"
+                ]);
+                expect(await storage.list()).to.have.length(4);
+            });
+
+            it("should delete backups not retained by the policy", async () => {
+                const cfg = createConfig("staging");
+                cfg.backup.directory = directory;
+                cfg.backup.keepDays = 7;
+                cfg.backup.keepPerVersion = true;
+                const storage = await saveBackups();
+
+                const plan = await new BackupService(createDatabase({}), cfg).pruneBackups(now);
+
+                expect(plan.prune.map(b => b.id)).to.deep.eq(["backup-20250121-000000-000", "backup-20250101-000000-000"]);
+                expect((await storage.list()).map(b => b.id)).to.deep.eq(["backup-20250111-000000-000", "backup-20250130-000000-000"]);
+                expect(readdirSync(directory)).to.have.length(4);
+            });
+
+            it("should only prune backups of the same shift and database", async () => {
+                const cfg = createConfig("staging");
+                cfg.backup.directory = directory;
+                cfg.backup.keepLast = 1;
+                const storage = await saveBackups();
+                const others: [string | null, string | null][] = [
+                    ["production", null],
+                    [null, null],
+                    ["staging", "https://other-default-rtdb.firebaseio.com"]
+                ];
+                for (const [index, [shift, databaseUrl]] of others.entries()) {
+                    const timestamp = now - (40 + index) * DAY;
+                    await storage.save(BackupStorage.generateId(timestamp), "{}", {
+                        timestamp,
+                        createdAt: new Date(timestamp).toISOString(),
+                        shift,
+                        databaseUrl,
+                        nodes: [shift ? `/${shift}` : "/"],
+                        migrationVersion: 1
+                    });
+                }
+
+                const plan = await new BackupService(createDatabase({}), cfg).pruneBackups(now);
+
+                expect(plan.keep.map(b => b.id)).to.deep.eq(["backup-20250130-000000-000"]);
+                expect(plan.prune).to.have.length(3);
+                expect(plan.prune.every(b => b.shift === "staging" && b.databaseUrl === null)).eq(true);
+                expect(await storage.list()).to.have.length(4);
+            });
+
+            it("should delete nothing without a retention policy", async () => {
+                const cfg = createConfig("staging");
+                cfg.backup.directory = directory;
+                const storage = await saveBackups();
+
+                const plan = await new BackupService(createDatabase({}), cfg).pruneBackups(now);
+
+                expect(plan.prune).to.deep.eq([]);
+                expect(await storage.list()).to.have.length(4);
+            });
+        });
+
+        it("should restore by backup id", async () => {
+            const cfg = createConfig("staging");
+            cfg.backup.directory = directory;
+            const setStub = sinon.stub().resolves();
+            const service = new BackupService(createDatabase({"/staging": {a: 1}}, setStub), cfg);
+            const id = await service.backup();
+
+            // A new service instance simulates a restart after a crash
+            await new BackupService(createDatabase({}, setStub), cfg).restore(id);
+
+            sinon.assert.calledOnceWithExactly(setStub, {a: 1});
+        });
+
+        it("should restore last persisted backup", async () => {
+            const cfg = createConfig("staging");
+            cfg.backup.directory = directory;
+            const setStub = sinon.stub().resolves();
+            const service = new BackupService(createDatabase({"/staging": {a: 1}}, setStub), cfg);
+            await service.backup();
+
+            await service.restore();
+
+            sinon.assert.calledOnceWithExactly(setStub, {a: 1});
+        });
+
+        it("should restore by file path", async () => {
+            const path = join(directory, "external.json");
+            writeFileSync(path, JSON.stringify({"/staging": {b: 2}}));
+            const setStub = sinon.stub().resolves();
+
+            const service = new BackupService(createDatabase({}, setStub), createConfig("staging"));
+            await service.restore(path);
+
+            sinon.assert.calledOnceWithExactly(setStub, {b: 2});
+        });
+
+        it("should throw when backup id is unknown", async () => {
+            const cfg = createConfig("staging");
+            cfg.backup.directory = directory;
+
+            const service = new BackupService(createDatabase({}), cfg);
+
+            await expect(service.restore("backup-missing")).to.be.rejectedWith(ReferenceError, "Backup not found");
+        });
+    });
+
+    describe("streaming", () => {
+        let directory: string;
+
+        beforeEach(() => {
+            directory = mkdtempSync(join(tmpdir(), "msr-backup-"));
+        });
+
+        afterEach(() => {
+            rmSync(directory, {recursive: true, force: true});
+        });
+
+        const createStreamingConfig = (pageSize = 2) => {
+            const cfg = createConfig("staging");
+            cfg.backup.directory = directory;
+            cfg.backup.streaming = true;
+            cfg.backup.pageSize = pageSize;
+            return cfg;
+        };
+
+        it("should require a backup directory", () => {
+            const cfg = createConfig("staging");
+            cfg.backup.streaming = true;
+
+            expect(() => new BackupService(new MemoryDatabase().asDatabase(), cfg))
+                .to.throw(TypeError, "Streaming backups require backup.directory");
+        });
+
+        it("should page through children and write NDJSON records", async () => {
+            const db = new MemoryDatabase({
+                staging: {a: {v: 1}, b: {v: 2}, c: {v: 3}, d: {v: 4}, e: {v: 5}},
+                production: {secret: true}
+            });
+            const cfg = createStreamingConfig(2);
+            cfg.backup.nodes = ["/"];
+
+            const service = new BackupService(db.asDatabase(), cfg);
+            const id = await service.backup();
+
+            const manifest = JSON.parse(readFileSync(join(directory, `${id}.manifest.json`), "utf-8"));
+            expect(manifest.format).eq("ndjson");
+            expect(manifest.file).eq(`${id}.ndjson`);
+
+            const content = readFileSync(join(directory, manifest.file), "utf-8");
+            expect(manifest.sha256).eq(BackupStorage.checksum(content));
+            expect(content.trim().split("\n").map(line => JSON.parse(line))).to.deep.eq([
+                {node: "/staging"},
+                {path: "/staging/a", value: {v: 1}},
+                {path: "/staging/b", value: {v: 2}},
+                {path: "/staging/c", value: {v: 3}},
+                {path: "/staging/d", value: {v: 4}},
+                {path: "/staging/e", value: {v: 5}}
+            ]);
+            expect(db.calls.pages.map(page => page.after)).to.deep.eq([undefined, "b", "d"]);
+            expect(db.calls.pages.every(page => page.limit === 2)).eq(true);
+        });
+
+        it("should page through each top-level collection when backing up the whole shift", async () => {
+            const db = new MemoryDatabase({
+                staging: {users: {a: {v: 1}, b: {v: 2}, c: {v: 3}, d: {v: 4}, e: {v: 5}}, version: 3, logs: {l1: true}},
+                production: {secret: true}
+            });
+            const cfg = createStreamingConfig(2);
+            cfg.backup.excludeNodes = ["logs"];
+
+            const service = new BackupService(db.asDatabase(), cfg);
+            const id = await service.backup();
+
+            const content = readFileSync(join(directory, `${id}.ndjson`), "utf-8");
+            expect(content.trim().split("\n").map(line => JSON.parse(line))).to.deep.eq([
+                {node: "/staging"},
+                {path: "/staging/users/a", value: {v: 1}},
+                {path: "/staging/users/b", value: {v: 2}},
+                {path: "/staging/users/c", value: {v: 3}},
+                {path: "/staging/users/d", value: {v: 4}},
+                {path: "/staging/users/e", value: {v: 5}},
+                {path: "/staging/version", value: 3}
+            ]);
+            expect(db.calls.shallow).to.deep.eq(["/staging"]);
+            expect(db.calls.pages.filter(page => page.path === "/staging/users").map(page => page.after))
+                .to.deep.eq([undefined, "b", "d"]);
+            expect(db.calls.pages.map(page => page.path)).to.not.include("/staging/logs");
+            expect(db.calls.reads.filter(path => path === "/staging" || path === "/staging/users")).to.be.empty;
+        });
+
+        it("should list whole-shift collections with the emulator owner token", async () => {
+            const db = new MemoryDatabase({staging: {users: {a: 1}}});
+
+            await new BackupService(db.asDatabase(), createStreamingConfig()).backup();
+
+            const [, init] = (globalThis.fetch as sinon.SinonStub).firstCall.args;
+            expect(init.headers).to.deep.eq({Authorization: "Bearer owner"});
+        });
+
+        it("should list whole-shift collections with the credential of the app", async () => {
+            const db = new MemoryDatabase({staging: {users: {a: 1}}}, "https://memory-credential.firebaseio.com");
+            const credential = {getAccessToken: sinon.stub().resolves({access_token: "app-token", expires_in: 3600})};
+            const appDatabase = Object.assign(db.asDatabase(), {app: {options: {credential}}});
+
+            await new BackupService(appDatabase, createStreamingConfig()).backup();
+
+            const [url, init] = (globalThis.fetch as sinon.SinonStub).firstCall.args;
+            expect(url.searchParams.get("ns")).eq("memory-credential");
+            expect(init.headers).to.deep.eq({Authorization: "Bearer app-token"});
+            expect(db.calls.shallow).to.deep.eq(["/staging"]);
+        });
+
+        it("should fall back to application default credentials for apps without a credential", async () => {
+            const db = new MemoryDatabase({staging: {users: {a: 1}}}, "https://memory-adc.firebaseio.com");
+            const appDatabase = Object.assign(db.asDatabase(), {app: {options: {}}});
+            const previous = process.env.GOOGLE_APPLICATION_CREDENTIALS;
+            process.env.GOOGLE_APPLICATION_CREDENTIALS = join(directory, "missing.json");
+
+            try {
+                await expect(new BackupService(appDatabase, createStreamingConfig()).backup()).to.be.rejectedWith(
+                    Error, 'Unable to list the children of "/staging": no access token from the app credential or the application default credentials');
+            } finally {
+                if (previous === undefined) delete process.env.GOOGLE_APPLICATION_CREDENTIALS;
+                else process.env.GOOGLE_APPLICATION_CREDENTIALS = previous;
+            }
+            expect((globalThis.fetch as sinon.SinonStub).called).eq(false);
+        });
+
+        it("should restore, diff and verify backups of whole-shift collections", async () => {
+            const db = new MemoryDatabase({staging: {users: {a: 1, b: 2, c: 3}, posts: {p1: true}, version: 3}});
+            const service = new BackupService(db.asDatabase(), createStreamingConfig(2));
+            const id = await service.backup();
+
+            db.write("staging/users/a", 10);
+            db.write("staging/users/d", 4);
+            db.write("staging/posts", null);
+            db.write("staging/comments", {c1: true});
+
+            expect(await service.diff(id)).to.deep.eq({
+                added: ["/staging/posts/p1"],
+                removed: ["/staging/comments", "/staging/users/d"],
+                changed: ["/staging/users/a"],
+                counts: {added: 1, removed: 2, changed: 1}
+            });
+            expect((await service.verify(id, {live: true})).drift?.map(entry => entry.path))
+                .to.deep.eq(["/staging/comments", "/staging/posts", "/staging/users"]);
+
+            await service.restore(id);
+
+            expect(db.get("staging")).to.deep.eq({users: {a: 1, b: 2, c: 3}, posts: {p1: true}, version: 3});
+            expect((await service.verify(id, {live: true})).drift).to.deep.eq([]);
+        });
+
+        it("should back up leaf nodes", async () => {
+            const db = new MemoryDatabase({staging: {counter: 42}});
+            const cfg = createStreamingConfig();
+            cfg.backup.nodes = ["counter", "missing"];
+
+            const service = new BackupService(db.asDatabase(), cfg);
+            const id = await service.backup();
+
+            const content = readFileSync(join(directory, `${id}.ndjson`), "utf-8");
+            expect(content.trim().split("\n").map(line => JSON.parse(line))).to.deep.eq([
+                {node: "/staging/counter"},
+                {path: "/staging/counter", value: 42},
+                {node: "/staging/missing"}
+            ]);
+        });
+
+        it("should round-trip a streaming backup", async () => {
+            const original = {staging: {a: {v: 1}, b: {v: 2}, c: {v: 3}}, production: {p: 1}};
+            const db = new MemoryDatabase(original);
+            const service = new BackupService(db.asDatabase(), createStreamingConfig(2));
+            const id = await service.backup();
+
+            db.write("staging/a/v", 100);
+            db.write("staging/z", {added: true});
+            db.write("production/p", 2);
+            await service.restore(id);
+
+            expect(db.get("staging")).to.deep.eq(original.staging);
+            expect(db.get("production")).to.deep.eq({p: 2});
+        });
+
+        it("should batch restore writes by page size", async () => {
+            const db = new MemoryDatabase({staging: {a: 1, b: 2, c: 3, d: 4, e: 5}});
+            const service = new BackupService(db.asDatabase(), createStreamingConfig(2));
+            const id = await service.backup();
+
+            await service.restore(id);
+
+            expect(db.calls.updates.length).eq(3);
+            expect(db.calls.updates[0].values).to.deep.eq({"staging/a": 1, "staging/b": 2});
+        });
+
+        it("should keep excluded nodes on streaming restore", async () => {
+            const db = new MemoryDatabase({staging: {users: {u1: 1}, logs: {l1: 1}}});
+            const cfg = createStreamingConfig();
+            cfg.backup.excludeNodes = ["logs"];
+            const service = new BackupService(db.asDatabase(), cfg);
+            const id = await service.backup();
+
+            db.write("staging/logs/l2", 2);
+            db.write("staging/users/u2", 2);
+            await service.restore(id);
+
+            expect(db.get("staging")).to.deep.eq({users: {u1: 1}, logs: {l1: 1, l2: 2}});
+        });
+
+        it("should restore streaming backup by file path", async () => {
+            const path = join(directory, "external.ndjson");
+            writeFileSync(path, [
+                JSON.stringify({node: "/staging"}),
+                JSON.stringify({path: "/staging/a", value: 1})
+            ].join("\n"));
+            const db = new MemoryDatabase({staging: {b: 2}});
+
+            await new BackupService(db.asDatabase(), createConfig("staging")).restore(path);
+
+            expect(db.get("staging")).to.deep.eq({a: 1});
+        });
+
+        it("should reject streaming records outside of the shift", async () => {
+            const path = join(directory, "external.ndjson");
+            writeFileSync(path, JSON.stringify({node: "/production"}));
+            const db = new MemoryDatabase({production: {p: 1}});
+
+            await expect(new BackupService(db.asDatabase(), createConfig("staging")).restore(path))
+                .to.be.rejectedWith(RangeError);
+            expect(db.get("production")).to.deep.eq({p: 1});
+        });
+    });
+
+    describe("batched restore", () => {
+        const users = {u1: {name: "A".repeat(40)}, u2: {name: "B".repeat(40)}, u3: {name: "C".repeat(40)}};
+
+        const createBatchConfig = (maxBatchSize: number) => {
+            const cfg = createConfig("staging");
+            cfg.backup.maxBatchSize = maxBatchSize;
+            return cfg;
+        };
+
+        it("should write small nodes with a single set", async () => {
+            const db = new MemoryDatabase({staging: {old: true}});
+            const service = new BackupService(db.asDatabase(), createBatchConfig(1024));
+
+            await service.restore(JSON.stringify({"/staging": {users}}));
+
+            expect(db.get("staging")).to.deep.eq({users});
+            expect(db.calls.updates).to.be.empty;
+        });
+
+        it("should split nodes larger than max batch size into multi-path updates", async () => {
+            const db = new MemoryDatabase({staging: {old: true}, production: {p: 1}});
+            const service = new BackupService(db.asDatabase(), createBatchConfig(150));
+
+            await service.restore(JSON.stringify({"/staging": {users, settings: {theme: "dark"}}}));
+
+            expect(db.get("staging")).to.deep.eq({users, settings: {theme: "dark"}});
+            expect(db.get("production")).to.deep.eq({p: 1});
+            expect(db.calls.updates.map(update => Object.keys(update.values))).to.deep.eq([
+                ["staging/users/u1", "staging/users/u2"],
+                ["staging/users/u3", "staging/settings"]
+            ]);
+            db.calls.updates.forEach(update => expect(JSON.stringify(update.values).length).lte(150));
+        });
+
+        it("should report progress through the logger", async () => {
+            const logger = {info: sinon.spy(), warn: sinon.spy(), error: sinon.spy(), debug: sinon.spy(), log: sinon.spy()};
+            const db = new MemoryDatabase();
+            const service = new BackupService(db.asDatabase(), createBatchConfig(150), logger);
+
+            await service.restore(JSON.stringify({"/staging": {users}}));
+
+            sinon.assert.calledWith(logger.info, sinon.match("Restore batch 1 committed"));
+            sinon.assert.calledWith(logger.info, "Restore completed in 3 batches");
+        });
+
+        it("should resume from the last committed batch", async () => {
+            const db = new MemoryDatabase();
+            const firebase = db.asDatabase();
+            const ref = firebase.ref.bind(firebase);
+            let writes = 0;
+            sinon.stub(firebase, "ref").callsFake((path?: string | database.Reference) => {
+                const reference = ref(path);
+                const update = reference.update.bind(reference);
+                reference.update = async (values: object) => {
+                    if (++writes === 2) throw new Error("connection lost");
+                    return update(values);
+                };
+                return reference;
+            });
+            const backup = JSON.stringify({"/staging": {users}});
+            const service = new BackupService(firebase, createBatchConfig(150));
+
+            await expect(service.restore(backup)).to.be.rejectedWith("connection lost");
+            expect(db.get("staging/users")).to.deep.eq({u1: users.u1, u2: users.u2});
+
+            db.calls.updates.length = 0;
+            await service.restore(backup);
+
+            expect(db.get("staging")).to.deep.eq({users});
+            expect(db.calls.updates.map(update => Object.keys(update.values))).to.deep.eq([["staging/users/u3"]]);
+        });
+
+        describe("with backup directory", () => {
+            let directory: string;
+
+            beforeEach(() => {
+                directory = mkdtempSync(join(tmpdir(), "msr-backup-"));
+            });
+
+            afterEach(() => {
+                rmSync(directory, {recursive: true, force: true});
+            });
+
+            it("should persist the checkpoint and remove it once completed", async () => {
+                const cfg = createBatchConfig(150);
+                cfg.backup.directory = directory;
+                const backup = JSON.stringify({"/staging": {users}});
+                const storage = new BackupStorage(directory);
+                await storage.saveCheckpoint({
+                    backup: BackupStorage.checksum(backup), batches: 2,
+                    maxBatchSize: 150, maxBatchPaths: BackupService.DEFAULT_PAGE_SIZE, excludeNodes: [], updatedAt: ""
+                });
+                const db = new MemoryDatabase();
+
+                await new BackupService(db.asDatabase(), cfg).restore(backup);
+
+                expect(db.calls.updates.map(update => Object.keys(update.values))).to.deep.eq([["staging/users/u3"]]);
+                expect(await storage.getCheckpoint()).to.be.undefined;
+            });
+
+            it("should ignore checkpoints of other backups", async () => {
+                const cfg = createBatchConfig(150);
+                cfg.backup.directory = directory;
+                await new BackupStorage(directory).saveCheckpoint({
+                    backup: "other", batches: 2,
+                    maxBatchSize: 150, maxBatchPaths: BackupService.DEFAULT_PAGE_SIZE, excludeNodes: [], updatedAt: ""
+                });
+                const db = new MemoryDatabase();
+
+                await new BackupService(db.asDatabase(), cfg).restore(JSON.stringify({"/staging": {users}}));
+
+                expect(db.get("staging")).to.deep.eq({users});
+            });
+
+            it("should restart from the first batch when the batching settings changed", async () => {
+                const records = Object.fromEntries(Array.from({length: 20}, (_, i) => [`k${String(i).padStart(2, "0")}`, "v".repeat(40)]));
+                const backup = JSON.stringify({"/staging": {records}});
+                const db = new MemoryDatabase();
+                const firebase = db.asDatabase();
+                const ref = firebase.ref.bind(firebase);
+                let failing = true;
+                sinon.stub(firebase, "ref").callsFake((path?: string | database.Reference) => {
+                    const reference = ref(path);
+                    const update = reference.update.bind(reference);
+                    reference.update = async (values: object) => {
+                        // The first batch clears the node, so the third update fails after 3 committed batches
+                        if (failing && db.calls.updates.length === 2) throw new Error("connection lost");
+                        return update(values);
+                    };
+                    return reference;
+                });
+
+                const first = createBatchConfig(300);
+                first.backup.directory = directory;
+                await expect(new BackupService(firebase, first).restore(backup)).to.be.rejectedWith("connection lost");
+                expect(await new BackupStorage(directory).getCheckpoint()).to.deep.include({batches: 3, maxBatchSize: 300});
+
+                failing = false;
+                const retry = createBatchConfig(1000);
+                retry.backup.directory = directory;
+                await new BackupService(firebase, retry).restore(backup);
+
+                expect(db.get("staging")).to.deep.eq({records});
+                expect(Object.keys(db.get("staging/records") as object)).to.have.length(20);
+            });
+        });
+    });
+
+    describe("encoding", () => {
+        const data = {staging: {users: {u1: {email: "a@example.com"}}}};
+
+        const createEncodedConfig = () => {
+            const cfg = createConfig("staging");
+            cfg.backup.compress = true;
+            cfg.backup.encryptionKey = randomBytes(32).toString("hex");
+            return cfg;
+        };
+
+        it("should return encrypted content as base64 when not persisted", async () => {
+            const db = new MemoryDatabase(data);
+            const service = new BackupService(db.asDatabase(), createEncodedConfig());
+
+            const backup = await service.backup();
+            db.write("staging/users/u1/email", "changed@example.com");
+            await service.restore(backup);
+
+            expect(Buffer.from(backup, "base64").includes("a@example.com")).eq(false);
+            expect(db.get("staging")).to.deep.eq(data.staging);
+        });
+
+        it("should restore persisted encrypted backups", async () => {
+            const directory = mkdtempSync(join(tmpdir(), "msr-backup-"));
+            try {
+                const cfg = createEncodedConfig();
+                cfg.backup.directory = directory;
+                const db = new MemoryDatabase(data);
+                const service = new BackupService(db.asDatabase(), cfg);
+
+                const id = await service.backup();
+                db.write("staging/users", null);
+                await service.restore(id);
+
+                expect(readFileSync(join(directory, `${id}.json.gz.enc`)).includes("a@example.com")).eq(false);
+                expect(db.get("staging")).to.deep.eq(data.staging);
+            } finally {
+                rmSync(directory, {recursive: true, force: true});
+            }
+        });
+    });
+
+    describe("diff", () => {
+        it("should report added, removed and changed paths", async () => {
+            const db = new MemoryDatabase({staging: {users: {u1: {name: "A"}, u2: {name: "B"}}}});
+            const service = new BackupService(db.asDatabase(), createConfig("staging"));
+            const backup = await service.backup();
+
+            db.write("staging/users/u1/name", "Changed");
+            db.write("staging/users/u2", null);
+            db.write("staging/users/u3", {name: "C"});
+            db.write("staging/posts", {p1: true});
+            const diff = await service.diff(backup);
+
+            expect(diff).to.deep.eq({
+                added: ["/staging/users/u2"],
+                removed: ["/staging/posts", "/staging/users/u3"],
+                changed: ["/staging/users/u1/name"],
+                counts: {added: 1, removed: 2, changed: 1}
+            });
+        });
+
+        it("should not write anything", async () => {
+            const db = new MemoryDatabase({staging: {a: 1}});
+            const service = new BackupService(db.asDatabase(), createConfig("staging"));
+            const backup = await service.backup();
+            db.write("staging/a", 2);
+
+            await service.diff(backup);
+
+            expect(db.get("staging")).to.deep.eq({a: 2});
+        });
+
+        it("should report no changes when live data matches", async () => {
+            const db = new MemoryDatabase({staging: {a: {b: 1}}});
+            const service = new BackupService(db.asDatabase(), createConfig("staging"));
+
+            const diff = await service.diff(await service.backup());
+
+            expect(diff.counts).to.deep.eq({added: 0, removed: 0, changed: 0});
+        });
+
+        it("should ignore excluded nodes", async () => {
+            const cfg = createConfig("staging");
+            cfg.backup.excludeNodes = ["logs"];
+            const db = new MemoryDatabase({staging: {users: {u1: 1}, logs: {l1: 1}}});
+            const service = new BackupService(db.asDatabase(), cfg);
+            const backup = await service.backup();
+
+            db.write("staging/logs/l2", 2);
+            const diff = await service.diff(backup);
+
+            expect(diff.counts).to.deep.eq({added: 0, removed: 0, changed: 0});
+        });
+
+        it("should reject backups outside of the shift", async () => {
+            const service = new BackupService(new MemoryDatabase().asDatabase(), createConfig("staging"));
+
+            await expect(service.diff(JSON.stringify({"/production": {}}))).to.be.rejectedWith(RangeError);
+        });
+
+        it("should diff streaming backups", async () => {
+            const directory = mkdtempSync(join(tmpdir(), "msr-backup-"));
+            try {
+                const cfg = createConfig("staging");
+                cfg.backup.directory = directory;
+                cfg.backup.streaming = true;
+                cfg.backup.pageSize = 2;
+                const db = new MemoryDatabase({staging: {a: {v: 1}, b: {v: 2}, c: {v: 3}}});
+                const service = new BackupService(db.asDatabase(), cfg);
+                const id = await service.backup();
+
+                db.write("staging/a/v", 10);
+                db.write("staging/b", null);
+                db.write("staging/d", {v: 4});
+                const diff = await service.diff(id);
+
+                expect(diff).to.deep.eq({
+                    added: ["/staging/b/v"],
+                    removed: ["/staging/d"],
+                    changed: ["/staging/a/v"],
+                    counts: {added: 1, removed: 1, changed: 1}
+                });
+            } finally {
+                rmSync(directory, {recursive: true, force: true});
+            }
+        });
+    });
+
+    describe("target shift", () => {
+        const production = {users: {u1: {name: "A"}}, posts: {p1: {title: "T"}}};
+
+        it("should restore into another shift", async () => {
+            const db = new MemoryDatabase({production});
+            const service = new BackupService(db.asDatabase(), createConfig("production"));
+            const backup = await service.backup();
+
+            await service.restore(backup, {targetShift: "staging"});
+
+            expect(db.get("staging")).to.deep.eq(production);
+            expect(db.get("production")).to.deep.eq(production);
+        });
+
+        it("should rewrite selected nodes", async () => {
+            const db = new MemoryDatabase({production});
+            const cfg = createConfig("production");
+            cfg.backup.nodes = ["users"];
+            const service = new BackupService(db.asDatabase(), cfg);
+            const backup = await service.backup();
+
+            await service.restore(backup, {targetShift: "dev/alice"});
+
+            expect(db.get("dev/alice")).to.deep.eq({users: production.users});
+        });
+
+        it("should refuse to overwrite a non-empty target unless forced", async () => {
+            const db = new MemoryDatabase({production, staging: {other: true}});
+            const service = new BackupService(db.asDatabase(), createConfig("production"));
+            const backup = await service.backup();
+
+            await expect(service.restore(backup, {targetShift: "staging"}))
+                .to.be.rejectedWith(Error, "Restore target \"/staging\" is not empty");
+            expect(db.get("staging")).to.deep.eq({other: true});
+
+            await service.restore(backup, {targetShift: "staging", force: true});
+            expect(db.get("staging")).to.deep.eq(production);
+        });
+
+        it("should take the source shift from the backup manifest", async () => {
+            const directory = mkdtempSync(join(tmpdir(), "msr-backup-"));
+            try {
+                const createPersistedConfig = (shift: string) => {
+                    const cfg = createConfig(shift);
+                    cfg.backup.directory = directory;
+                    return cfg;
+                };
+                const db = new MemoryDatabase({production});
+                const id = await new BackupService(db.asDatabase(), createPersistedConfig("production")).backup();
+
+                await new BackupService(db.asDatabase(), createPersistedConfig("staging")).restore(id, {targetShift: "dev"});
+
+                expect(db.get("dev")).to.deep.eq(production);
+            } finally {
+                rmSync(directory, {recursive: true, force: true});
+            }
+        });
+
+        it("should rewrite streaming backups", async () => {
+            const directory = mkdtempSync(join(tmpdir(), "msr-backup-"));
+            try {
+                const cfg = createConfig("production");
+                cfg.backup.directory = directory;
+                cfg.backup.streaming = true;
+                const db = new MemoryDatabase({production});
+                const service = new BackupService(db.asDatabase(), cfg);
+                const id = await service.backup();
+
+                await service.restore(id, {targetShift: "staging"});
+
+                expect(db.get("staging")).to.deep.eq(production);
+            } finally {
+                rmSync(directory, {recursive: true, force: true});
+            }
+        });
+
+        it("should diff against the target shift", async () => {
+            const db = new MemoryDatabase({production, staging: {users: {u1: {name: "B"}}}});
+            const service = new BackupService(db.asDatabase(), createConfig("production"));
+
+            const diff = await service.diff(await service.backup(), {targetShift: "staging"});
+
+            expect(diff).to.deep.eq({
+                added: ["/staging/posts"],
+                removed: [],
+                changed: ["/staging/users/u1/name"],
+                counts: {added: 1, removed: 0, changed: 1}
+            });
+        });
+    });
+
+    describe("lossless", () => {
+        const list = {
+            a: {".priority": 2, title: "second"},
+            b: {".priority": 1, title: "first"},
+            c: {".value": "leaf", ".priority": 3}
+        };
+
+        const createLosslessConfig = () => {
+            const cfg = createConfig("staging");
+            cfg.backup.lossless = true;
+            return cfg;
+        };
+
+        it("should drop priorities by default", async () => {
+            const service = new BackupService(new MemoryDatabase({staging: {list}}).asDatabase(), createConfig("staging"));
+
+            expect(JSON.parse(await service.backup())).to.deep.eq({
+                "/staging": {list: {a: {title: "second"}, b: {title: "first"}, c: "leaf"}}
+            });
+        });
+
+        it("should keep priorities in the backup and restore them", async () => {
+            const db = new MemoryDatabase({staging: {list}});
+            const service = new BackupService(db.asDatabase(), createLosslessConfig());
+            const backup = await service.backup();
+
+            expect(JSON.parse(backup)).to.deep.eq({"/staging": {list}});
+
+            await db.ref("staging").remove();
+            await service.restore(backup);
+
+            expect(db.get("staging")).to.deep.eq({list});
+        });
+
+        it("should write priorities after the children of split nodes", async () => {
+            const db = new MemoryDatabase();
+            const cfg = createLosslessConfig();
+            cfg.backup.maxBatchSize = 60;
+            const service = new BackupService(db.asDatabase(), cfg);
+
+            await service.restore(JSON.stringify({"/staging": {list: {".priority": 9, ...list}}}));
+
+            expect(db.get("staging/list")).to.deep.eq({".priority": 9, ...list});
+            const paths = db.calls.updates.flatMap(update => Object.keys(update.values));
+            expect(paths[paths.length - 1]).eq("staging/list/.priority");
+        });
+
+        it("should restore priorities of nodes with excluded children", async () => {
+            const db = new MemoryDatabase({staging: {list: {a: {title: "old"}, logs: {l1: true}}}});
+            const cfg = createLosslessConfig();
+            cfg.backup.excludeNodes = ["list/logs"];
+            const service = new BackupService(db.asDatabase(), cfg);
+
+            await service.restore(JSON.stringify({"/staging": {list: {".priority": 5, a: {title: "new"}}}}));
+
+            expect(db.get("staging/list")).to.deep.eq({".priority": 5, a: {title: "new"}, logs: {l1: true}});
+        });
+
+        it("should keep priorities of streamed children", async () => {
+            const directory = mkdtempSync(join(tmpdir(), "msr-backup-"));
+            try {
+                const cfg = createLosslessConfig();
+                cfg.backup.directory = directory;
+                cfg.backup.streaming = true;
+                cfg.backup.pageSize = 2;
+                const db = new MemoryDatabase({staging: {list}});
+                const service = new BackupService(db.asDatabase(), cfg);
+                const id = await service.backup();
+
+                await db.ref("staging").remove();
+                await service.restore(id);
+
+                expect(db.get("staging")).to.deep.eq({list});
+            } finally {
+                rmSync(directory, {recursive: true, force: true});
+            }
+        });
+
+        it("should report changed priorities in diff", async () => {
+            const db = new MemoryDatabase({staging: {list}});
+            const service = new BackupService(db.asDatabase(), createLosslessConfig());
+            const backup = await service.backup();
+
+            await db.ref("staging/list/a/.priority").set(7);
+
+            expect((await service.diff(backup)).changed).to.deep.eq(["/staging/list/a/.priority"]);
+        });
+    });
+
+    describe("verify", () => {
+        let directory: string;
+
+        beforeEach(() => {
+            directory = mkdtempSync(join(tmpdir(), "msr-backup-"));
+        });
+
+        afterEach(() => {
+            rmSync(directory, {recursive: true, force: true});
+        });
+
+        const createPersistedConfig = (streaming = false) => {
+            const cfg = createConfig("staging");
+            cfg.backup.directory = directory;
+            cfg.backup.streaming = streaming;
+            cfg.backup.pageSize = 2;
+            return cfg;
+        };
+        const data = {users: {u1: {name: "A"}, u2: {name: "B"}}, posts: {p1: {title: "T"}}};
+
+        it("should accept an intact backup", async () => {
+            const service = new BackupService(new MemoryDatabase({staging: data}).asDatabase(), createPersistedConfig());
+            const id = await service.backup();
+
+            expect(await service.verify(id)).to.deep.eq({id, valid: true, checksum: true, nodes: 2, errors: []});
+        });
+
+        it("should detect a checksum mismatch", async () => {
+            const service = new BackupService(new MemoryDatabase({staging: data}).asDatabase(), createPersistedConfig());
+            const id = await service.backup();
+            writeFileSync(join(directory, `${id}.json`), JSON.stringify({"/staging": {users: {}}}));
+
+            const result = await service.verify(id);
+
+            expect(result.valid).eq(false);
+            expect(result.checksum).eq(false);
+            expect(result.errors[0]).to.include("does not match the manifest checksum");
+        });
+
+        it("should report unreadable content", async () => {
+            const path = join(directory, "broken.ndjson");
+            writeFileSync(path, `${JSON.stringify({node: "/staging"})}\n{"path":\n`);
+            const service = new BackupService(new MemoryDatabase().asDatabase(), createPersistedConfig());
+
+            const result = await service.verify(path);
+
+            expect(result).to.deep.include({id: path, valid: false, checksum: null});
+            expect(result.errors).to.deep.eq(["Unable to read backup: line 2 is not valid JSON"]);
+        });
+
+        it("should report keys that are illegal in the Realtime Database", async () => {
+            const path = join(directory, "illegal.json");
+            writeFileSync(path, JSON.stringify({
+                "/staging": {"users": {"a.b": 1, "c$": {"d[0]": 2}}, "k": {[" ".repeat(769)]: 3}},
+                "/staging/x#y": null
+            }));
+            const service = new BackupService(new MemoryDatabase().asDatabase(), createPersistedConfig());
+
+            const result = await service.verify(path);
+
+            const illegal = "contains \".\", \"#\", \"$\", \"[\", \"]\", \"/\" or a control character";
+            expect(result.valid).eq(false);
+            expect(result.errors).to.have.members([
+                `Illegal key "a.b" at /staging/users: ${illegal}`,
+                `Illegal key "c$" at /staging/users: ${illegal}`,
+                `Illegal key "d[0]" at /staging/users/c$: ${illegal}`,
+                `Illegal key "${" ".repeat(769)}" at /staging/k: is longer than 768 bytes`,
+                `Illegal key "x#y" at /staging: ${illegal}`
+            ]);
+        });
+
+        it("should report nodes that drifted from the live data", async () => {
+            const db = new MemoryDatabase({staging: data});
+            const service = new BackupService(db.asDatabase(), createPersistedConfig());
+            const id = await service.backup();
+
+            expect((await service.verify(id, {live: true})).drift).to.deep.eq([]);
+
+            await db.ref("staging/users/u2/name").set("changed");
+            await db.ref("staging/posts").remove();
+            await db.ref("staging/comments").set({c1: true});
+
+            const drift = (await service.verify(id, {live: true})).drift ?? [];
+            expect(drift.map(({path, backupHash, liveHash}) => [path, backupHash === null, liveHash === null])).to.deep.eq([
+                ["/staging/comments", true, false],
+                ["/staging/posts", false, true],
+                ["/staging/users", false, false]
+            ]);
+        });
+
+        it("should hash streaming backups split around excluded nodes", async () => {
+            const db = new MemoryDatabase({staging: {...data, logs: {l1: true}}});
+            const cfg = createPersistedConfig(true);
+            cfg.backup.excludeNodes = ["logs", "users/u1"];
+            const service = new BackupService(db.asDatabase(), cfg);
+            const id = await service.backup();
+
+            await db.ref("staging/logs/l2").set(true);
+            await db.ref("staging/users/u1/name").set("excluded change");
+            const before = await service.verify(id, {live: true});
+
+            await db.ref("staging/users/u2/name").set("changed");
+            const after = await service.verify(id, {live: true});
+
+            expect(before).to.deep.include({valid: true, nodes: 2, drift: []});
+            expect(after.drift?.map(entry => entry.path)).to.deep.eq(["/staging/users"]);
+        });
+    });
 });
@@ -0,0 +1,272 @@
+import {expect} from "chai";
+import {mkdtempSync, mkdirSync, readFileSync, rmSync, writeFileSync, existsSync} from "node:fs";
+import {randomBytes} from "node:crypto";
+import {tmpdir} from "node:os";
+import {join} from "node:path";
+import {setTimeout as sleep} from "node:timers/promises";
+import {BackupStorage} from "../../src";
+
+describe("BackupStorage", () => {
+    let directory: string;
+    let storage: BackupStorage;
+
+    const meta = (timestamp: number) => ({
+        timestamp,
+        createdAt: new Date(timestamp).toISOString(),
+        shift: "staging",
+        databaseUrl: "https://test.firebaseio.com",
+        nodes: ["/staging"],
+        migrationVersion: 202501010001
+    });
+
+    beforeEach(() => {
+        directory = mkdtempSync(join(tmpdir(), "msr-backup-"));
+        storage = new BackupStorage(directory);
+    });
+
+    afterEach(() => {
+        rmSync(directory, {recursive: true, force: true});
+    });
+
+    describe("generateId", () => {
+        it("should create timestamped id", () => {
+            const id = BackupStorage.generateId(Date.UTC(2025, 0, 2, 3, 4, 5, 6));
+
+            expect(id).eq("backup-20250102-030405-006");
+        });
+    });
+
+    describe("save", () => {
+        it("should write backup file and manifest", async () => {
+            const content = JSON.stringify({"/staging": {users: {}}});
+
+            const manifest = await storage.save("backup-1", content, meta(1000));
+
+            expect(readFileSync(join(directory, "backup-1.json"), "utf-8")).eq(content);
+            const stored = JSON.parse(readFileSync(join(directory, "backup-1.manifest.json"), "utf-8"));
+            expect(stored).to.deep.eq(manifest);
+            expect(manifest).to.include({
+                id: "backup-1",
+                file: "backup-1.json",
+                size: Buffer.byteLength(content),
+                sha256: BackupStorage.checksum(content),
+                shift: "staging",
+                databaseUrl: "https://test.firebaseio.com",
+                migrationVersion: 202501010001
+            });
+            expect(manifest.nodes).to.deep.eq(["/staging"]);
+        });
+
+        it("should create missing directory", async () => {
+            const nested = new BackupStorage(join(directory, "nested", "dir"));
+
+            await nested.save("backup-1", "{}", meta(1000));
+
+            expect(existsSync(join(directory, "nested", "dir", "backup-1.json"))).eq(true);
+        });
+    });
+
+    describe("saveStream", () => {
+        let unhandled: unknown[];
+        const onUnhandled = (reason: unknown) => unhandled.push(reason);
+
+        beforeEach(() => {
+            unhandled = [];
+            process.on("unhandledRejection", onUnhandled);
+        });
+
+        afterEach(() => {
+            process.off("unhandledRejection", onUnhandled);
+        });
+
+        it("should write NDJSON lines and manifest", async () => {
+            const manifest = await storage.saveStream("backup-1", meta(1000), async write => {
+                await write("{\"node\":\"/staging\"}");
+                await write("{\"path\":\"/staging/u1\",\"value\":1}");
+            });
+
+            expect(manifest).to.include({id: "backup-1", format: "ndjson", file: "backup-1.ndjson"});
+            expect(readFileSync(join(directory, manifest.file), "utf-8")).eq("{\"node\":\"/staging\"}\n{\"path\":\"/staging/u1\",\"value\":1}\n");
+        });
+
+        it("should report a write failure while the data is still being produced", async () => {
+            mkdirSync(join(directory, "backup-1.ndjson"));
+
+            const save = storage.saveStream("backup-1", meta(1000), async () => {
+                await sleep(100);
+            });
+
+            await expect(save).to.be.rejected.and.eventually.have.property("code", "EISDIR");
+            await sleep(10);
+            expect(unhandled).to.be.empty;
+            expect(existsSync(join(directory, "backup-1.manifest.json"))).eq(false);
+        });
+
+        it("should reject writes once the file cannot be written", async () => {
+            mkdirSync(join(directory, "backup-1.ndjson"));
+            let written = 0;
+
+            const save = storage.saveStream("backup-1", meta(1000), async write => {
+                for (let i = 0; i < 1000; i++) {
+                    await write(JSON.stringify({path: `/staging/u${i}`, value: "x".repeat(1024)}));
+                    written++;
+                    await sleep(1);
+                }
+            });
+
+            await expect(save).to.be.rejected.and.eventually.have.property("code", "EISDIR");
+            expect(written).to.be.lessThan(1000);
+            expect(unhandled).to.be.empty;
+        });
+    });
+
+    describe("read", () => {
+        it("should read backup by id", async () => {
+            await storage.save("backup-1", "{\"a\":1}", meta(1000));
+
+            const {content, manifest} = await storage.read("backup-1");
+
+            expect(content.toString()).eq("{\"a\":1}");
+            expect(manifest?.id).eq("backup-1");
+        });
+
+        it("should read backup by manifest path", async () => {
+            await storage.save("backup-1", "{\"a\":1}", meta(1000));
+            const other = new BackupStorage(join(directory, "other"));
+
+            const {content, manifest} = await other.read(join(directory, "backup-1.manifest.json"));
+
+            expect(content.toString()).eq("{\"a\":1}");
+            expect(manifest?.id).eq("backup-1");
+        });
+
+        it("should read backup by file path", async () => {
+            const path = join(directory, "external.json");
+            writeFileSync(path, "{\"b\":2}");
+
+            const {content, manifest} = await storage.read(path);
+
+            expect(content.toString()).eq("{\"b\":2}");
+            expect(manifest).to.be.undefined;
+        });
+
+        it("should throw when backup does not exist", async () => {
+            await expect(storage.read("missing")).to.be.rejectedWith(ReferenceError, "Backup not found: missing");
+        });
+    });
+
+    describe("list", () => {
+        it("should list manifests oldest first", async () => {
+            await storage.save("backup-2", "{}", meta(2000));
+            await storage.save("backup-1", "{}", meta(1000));
+
+            const manifests = await storage.list();
+
+            expect(manifests.map(m => m.id)).to.deep.eq(["backup-1", "backup-2"]);
+        });
+
+        it("should return empty list when directory does not exist", async () => {
+            const missing = new BackupStorage(join(directory, "missing"));
+
+            expect(await missing.list()).to.deep.eq([]);
+        });
+    });
+
+    describe("remove", () => {
+        it("should delete backup file and manifest", async () => {
+            await storage.save("backup-1", "{}", meta(1000));
+
+            await storage.remove("backup-1");
+
+            expect(existsSync(join(directory, "backup-1.json"))).eq(false);
+            expect(existsSync(join(directory, "backup-1.manifest.json"))).eq(false);
+            expect(await storage.list()).to.deep.eq([]);
+        });
+    });
+
+    describe("verifyChecksum", () => {
+        it("should match an unchanged backup file", async () => {
+            await storage.save("backup-1", "{}", meta(1000));
+
+            expect(await storage.verifyChecksum("backup-1")).eq(true);
+        });
+
+        it("should detect a modified backup file", async () => {
+            await storage.save("backup-1", "{\"a\":1}", meta(1000));
+            writeFileSync(join(directory, "backup-1.json"), "{\"a\":2}");
+
+            expect(await storage.verifyChecksum("backup-1")).eq(false);
+        });
+
+        it("should return null for a backup without manifest", async () => {
+            const path = join(directory, "external.json");
+            writeFileSync(path, "{}");
+
+            expect(await storage.verifyChecksum(path)).to.be.null;
+        });
+    });
+
+    describe("encoding", () => {
+        const key = randomBytes(32);
+        const content = JSON.stringify({"/staging": {users: {u1: {email: "a@example.com"}}}});
+
+        it("should compress and encrypt backup files", async () => {
+            const encrypted = new BackupStorage(directory, {compress: true, key});
+
+            const manifest = await encrypted.save("backup-1", content, meta(1000));
+
+            expect(manifest).to.include({file: "backup-1.json.gz.enc", compression: "gzip", encryption: "aes-256-gcm"});
+            const stored = readFileSync(join(directory, manifest.file));
+            expect(stored.includes("a@example.com")).eq(false);
+            expect(manifest.sha256).eq(BackupStorage.checksum(stored));
+            expect((await encrypted.read("backup-1")).content.toString()).eq(content);
+        });
+
+        it("should detect compression on read regardless of settings", async () => {
+            await new BackupStorage(directory, {compress: true}).save("backup-1", content, meta(1000));
+
+            expect((await storage.read("backup-1")).content.toString()).eq(content);
+        });
+
+        it("should require the key to read encrypted backups", async () => {
+            await new BackupStorage(directory, {key}).save("backup-1", content, meta(1000));
+
+            await expect(storage.read("backup-1")).to.be.rejectedWith(TypeError, "no encryption key");
+        });
+
+        it("should stream encrypted NDJSON backups", async () => {
+            const encrypted = new BackupStorage(directory, {compress: true, key});
+            const lines = Array.from({length: 500}, (_, i) => JSON.stringify({path: `/staging/u${i}`, value: "a@example.com"}));
+
+            const manifest = await encrypted.saveStream("backup-1", meta(1000), async write => {
+                for (const line of lines) await write(line);
+            });
+
+            expect(manifest.file).eq("backup-1.ndjson.gz.enc");
+            const stored = readFileSync(join(directory, manifest.file));
+            expect(stored.includes("a@example.com")).eq(false);
+            expect(manifest).to.include({size: stored.length, sha256: BackupStorage.checksum(stored)});
+
+            const read: string[] = [];
+            for await (const line of encrypted.readLines("backup-1")) read.push(line);
+            expect(read).to.deep.eq(lines);
+        });
+
+        it("should reject tampered NDJSON backups before returning any line", async () => {
+            const encrypted = new BackupStorage(directory, {key});
+            const manifest = await encrypted.saveStream("backup-1", meta(1000), write => write("{\"node\":\"/staging\"}"));
+            const path = join(directory, manifest.file);
+            const stored = readFileSync(path);
+            stored[20] ^= 1;
+            writeFileSync(path, stored);
+
+            const read: string[] = [];
+            const consume = async () => {
+                for await (const line of encrypted.readLines("backup-1")) read.push(line);
+            };
+
+            await expect(consume()).to.be.rejectedWith("Unable to decrypt backup");
+            expect(read).to.be.empty;
+        });
+    });
+});
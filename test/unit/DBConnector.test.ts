@@ -0,0 +1,282 @@
+import {expect} from "chai";
+import sinon from "sinon";
+import * as admin from "firebase-admin";
+import {mkdtempSync, readFileSync, rmSync, writeFileSync} from "node:fs";
+import {tmpdir} from "node:os";
+import {join} from "node:path";
+import {DBConnector, FirebaseConfig} from "../../src";
+
+describe("DBConnector", () => {
+    const keyFile = join(process.cwd(), "test/resources/fake-service-account.json");
+    const serviceAccount = JSON.parse(readFileSync(keyFile, "utf-8"));
+
+    let certStub: sinon.SinonStub;
+    let adcStub: sinon.SinonStub;
+    let initializeStub: sinon.SinonStub;
+    let databaseStub: sinon.SinonStub;
+    let useEmulatorStub: sinon.SinonStub;
+    let config: FirebaseConfig;
+
+    beforeEach(() => {
+        certStub = sinon.stub(admin.credential, "cert").returns({name: "cert"} as unknown as admin.credential.Credential);
+        adcStub = sinon.stub(admin.credential, "applicationDefault").returns({name: "adc"} as unknown as admin.credential.Credential);
+        useEmulatorStub = sinon.stub();
+        databaseStub = sinon.stub().returns({useEmulator: useEmulatorStub} as unknown as admin.database.Database);
+        initializeStub = sinon.stub(admin, "initializeApp").returns({database: databaseStub} as unknown as admin.app.App);
+
+        config = new FirebaseConfig();
+        config.applicationCredentials = undefined;
+        config.credentialsJson = undefined;
+        config.emulatorHost = undefined;
+        config.databaseUrl = "https://test.firebaseio.com";
+    });
+
+    afterEach(() => {
+        sinon.restore();
+    });
+
+    describe("connect", () => {
+        it("should fall back to Application Default Credentials", async () => {
+            await DBConnector.connect(config);
+
+            sinon.assert.calledOnce(adcStub);
+            sinon.assert.notCalled(certStub);
+            expect(initializeStub.firstCall.args[0]).to.deep.eq({credential: {name: "adc"}});
+            sinon.assert.calledOnceWithExactly(databaseStub, "https://test.firebaseio.com");
+        });
+
+        it("should load the service account key file", async () => {
+            config.applicationCredentials = keyFile;
+
+            await DBConnector.connect(config);
+
+            expect(certStub.firstCall.args[0]).to.deep.include(serviceAccount);
+            sinon.assert.notCalled(adcStub);
+        });
+
+        it("should validate the service account key file", async () => {
+            const directory = mkdtempSync(join(tmpdir(), "msr-key-"));
+            try {
+                config.applicationCredentials = join(directory, "key.json");
+                writeFileSync(config.applicationCredentials, JSON.stringify({project_id: "test"}));
+
+                await expect(DBConnector.connect(config))
+                    .to.be.rejectedWith(TypeError, "is missing required fields: client_email, private_key");
+                sinon.assert.notCalled(certStub);
+            } finally {
+                rmSync(directory, {recursive: true, force: true});
+            }
+        });
+
+        it("should parse inline service account JSON", async () => {
+            config.credentialsJson = JSON.stringify(serviceAccount);
+            config.applicationCredentials = keyFile;
+
+            await DBConnector.connect(config);
+
+            sinon.assert.calledOnceWithExactly(certStub, serviceAccount);
+        });
+
+        it("should decode base64-encoded service account JSON", async () => {
+            config.credentialsJson = Buffer.from(JSON.stringify(serviceAccount)).toString("base64");
+
+            await DBConnector.connect(config);
+
+            sinon.assert.calledOnceWithExactly(certStub, serviceAccount);
+        });
+
+        it("should use ADC when requested explicitly", async () => {
+            config.credentialsMode = "adc";
+            config.applicationCredentials = keyFile;
+
+            await DBConnector.connect(config);
+
+            sinon.assert.calledOnce(adcStub);
+            sinon.assert.notCalled(certStub);
+        });
+
+        it("should require a key file in file mode", async () => {
+            config.credentialsMode = "file";
+
+            await expect(DBConnector.connect(config))
+                .to.be.rejectedWith(TypeError, "Application credentials not found in configuration");
+            sinon.assert.notCalled(initializeStub);
+        });
+
+        it("should require service account JSON in json mode", async () => {
+            config.credentialsMode = "json";
+
+            await expect(DBConnector.connect(config)).to.be.rejectedWith(TypeError, "Service account JSON not found");
+        });
+
+        it("should reject unknown credentials modes", async () => {
+            config.credentialsMode = "token" as "file";
+
+            await expect(DBConnector.connect(config)).to.be.rejectedWith(TypeError, "Unknown credentials mode \"token\"");
+        });
+
+        it("should pass the auth variable override", async () => {
+            config.databaseAuthVariableOverride = {uid: "migrator"};
+
+            await DBConnector.connect(config);
+
+            expect(initializeStub.firstCall.args[0]).to.deep.eq({credential: {name: "adc"}, databaseAuthVariableOverride: {uid: "migrator"}});
+        });
+
+        it("should pass a null auth variable override", async () => {
+            config.databaseAuthVariableOverride = null;
+
+            await DBConnector.connect(config);
+
+            expect(initializeStub.firstCall.args[0]).to.have.property("databaseAuthVariableOverride", null);
+        });
+
+        it("should reject sharded configuration", async () => {
+            config.databaseUrl = ["https://project-1.firebaseio.com", "https://project-2.firebaseio.com"];
+
+            await expect(DBConnector.connect(config)).to.be.rejectedWith(TypeError, "databaseUrl lists shards (project-1, project-2)");
+            sinon.assert.notCalled(initializeStub);
+        });
+
+        it("should reuse an existing app", async () => {
+            const hostApp = {database: databaseStub} as unknown as admin.app.App;
+
+            await DBConnector.connect(config, hostApp);
+
+            sinon.assert.notCalled(initializeStub);
+            sinon.assert.notCalled(adcStub);
+            sinon.assert.calledOnceWithExactly(databaseStub, "https://test.firebaseio.com");
+        });
+
+        describe("emulator", () => {
+            it("should connect to an emulator URL without credentials", async () => {
+                config.databaseUrl = "http://localhost:9000?ns=test-integration";
+                config.applicationCredentials = join(tmpdir(), "missing-key.json");
+
+                await DBConnector.connect(config);
+
+                sinon.assert.notCalled(certStub);
+                sinon.assert.notCalled(adcStub);
+                sinon.assert.calledOnceWithExactly(databaseStub, "http://localhost:9000?ns=test-integration");
+                sinon.assert.notCalled(useEmulatorStub);
+            });
+
+            it("should redirect the configured database to the emulator host", async () => {
+                config.emulatorHost = "127.0.0.1:9001";
+
+                await DBConnector.connect(config);
+
+                sinon.assert.notCalled(adcStub);
+                sinon.assert.calledOnceWithExactly(databaseStub, "https://test.firebaseio.com");
+                sinon.assert.calledOnceWithExactly(useEmulatorStub, "127.0.0.1", 9001);
+            });
+
+            it("should leave FIREBASE_DATABASE_EMULATOR_HOST to the SDK", async () => {
+                const originalValue = process.env.FIREBASE_DATABASE_EMULATOR_HOST;
+                process.env.FIREBASE_DATABASE_EMULATOR_HOST = "localhost:9000";
+                try {
+                    config.emulatorHost = "localhost:9000";
+                    await DBConnector.connect(config);
+                    sinon.assert.notCalled(useEmulatorStub);
+
+                    config.emulatorHost = "localhost:9001";
+                    await DBConnector.connect(config);
+                    sinon.assert.calledOnceWithExactly(useEmulatorStub, "localhost", 9001);
+                } finally {
+                    if (originalValue === undefined) delete process.env.FIREBASE_DATABASE_EMULATOR_HOST;
+                    else process.env.FIREBASE_DATABASE_EMULATOR_HOST = originalValue;
+                }
+            });
+
+            it("should not redirect the database of a host app", async () => {
+                config.emulatorHost = "127.0.0.1:9001";
+                const used = {
+                    useEmulator: sinon.stub().throws(new Error("FIREBASE FATAL ERROR: Cannot call useEmulator() after instance has already been initialized."))
+                } as unknown as admin.database.Database;
+                const hostApp = {database: sinon.stub().returns(used)} as unknown as admin.app.App;
+
+                expect(await DBConnector.connect(config, hostApp)).eq(used);
+                sinon.assert.notCalled(used.useEmulator as sinon.SinonStub);
+            });
+
+            it("should use the default namespace without database URL", async () => {
+                config.databaseUrl = undefined;
+                config.emulatorHost = "localhost:9000";
+
+                await DBConnector.connect(config);
+
+                sinon.assert.calledOnceWithExactly(databaseStub, "http://localhost:9000?ns=default");
+            });
+
+            it("should keep explicitly configured credentials", async () => {
+                config.emulatorHost = "localhost:9000";
+                config.credentialsMode = "adc";
+
+                await DBConnector.connect(config);
+
+                sinon.assert.calledOnce(adcStub);
+            });
+
+            it("should reject emulator hosts without port", async () => {
+                config.emulatorHost = "localhost";
+
+                await expect(DBConnector.connect(config))
+                    .to.be.rejectedWith(TypeError, "Invalid emulator host \"localhost\", expected host:port");
+                sinon.assert.notCalled(initializeStub);
+            });
+        });
+    });
+
+    describe("parseAuthOverride", () => {
+        it("should parse objects and null", () => {
+            expect(DBConnector.parseAuthOverride("{\"uid\":\"migrator\"}")).to.deep.eq({uid: "migrator"});
+            expect(DBConnector.parseAuthOverride("null")).to.be.null;
+        });
+
+        it("should reject invalid values", () => {
+            expect(() => DBConnector.parseAuthOverride("{uid}")).to.throw(TypeError, "not valid JSON");
+            expect(() => DBConnector.parseAuthOverride("\"migrator\"")).to.throw(TypeError, "must be a JSON object or null");
+            expect(() => DBConnector.parseAuthOverride("[]")).to.throw(TypeError, "must be a JSON object or null");
+        });
+    });
+
+    describe("environment variables", () => {
+        it("should read FIREBASE_SERVICE_ACCOUNT_JSON from env", () => {
+            const originalValue = process.env.FIREBASE_SERVICE_ACCOUNT_JSON;
+
+            // Set env var
+            process.env.FIREBASE_SERVICE_ACCOUNT_JSON = JSON.stringify(serviceAccount);
+
+            const cfg = new FirebaseConfig();
+
+            expect(cfg.credentialsJson).eq(JSON.stringify(serviceAccount));
+            expect(cfg.getCredentialsMode()).eq("json");
+
+            // Restore
+            if (originalValue) {
+                process.env.FIREBASE_SERVICE_ACCOUNT_JSON = originalValue;
+            } else {
+                delete process.env.FIREBASE_SERVICE_ACCOUNT_JSON;
+            }
+        });
+
+        it("should read FIREBASE_DATABASE_EMULATOR_HOST from env", () => {
+            const originalValue = process.env.FIREBASE_DATABASE_EMULATOR_HOST;
+
+            // Set env var
+            process.env.FIREBASE_DATABASE_EMULATOR_HOST = "localhost:9000";
+
+            const cfg = new FirebaseConfig();
+
+            expect(cfg.emulatorHost).eq("localhost:9000");
+            expect(cfg.getEmulatorHost()).eq("localhost:9000");
+
+            // Restore
+            if (originalValue) {
+                process.env.FIREBASE_DATABASE_EMULATOR_HOST = originalValue;
+            } else {
+                delete process.env.FIREBASE_DATABASE_EMULATOR_HOST;
+            }
+        });
+    });
+});
@@ -2,7 +2,9 @@ import {expect} from "chai";
 import sinon from "sinon";
 import { database } from "firebase-admin";
 import {EntityService} from "../../src/service/EntityService";
+import {InvalidPathError} from "../../src/error";
 import type {IEntity} from "../../src/interface/IEntity";
+import {MemoryDatabase} from "../MemoryDatabase";
 
 interface TestEntity extends IEntity {
     name: string;
@@ -61,6 +63,18 @@ describe("EntityService", () => {
             expect(service).to.be.instanceOf(EntityService);
             expect(service.db).to.equal(mockDatabase);
         });
+
+        it("should normalize the root path", async () => {
+            const entities = new EntityService<TestEntity>(mockDatabase, 'test//entities/');
+
+            await entities.get('found-key');
+
+            sinon.assert.calledWith(mockDatabase.ref as sinon.SinonStub, '/test/entities/found-key');
+        });
+
+        it("should reject invalid root paths", () => {
+            expect(() => new EntityService<TestEntity>(mockDatabase, 'test/entities.v2')).to.throw(InvalidPathError);
+        });
     });
 
     describe("getAll", () => {
@@ -91,6 +105,87 @@ describe("EntityService", () => {
         });
     });
 
+    describe("getPage", () => {
+        const users = {
+            u1: {name: 'Alice', value: 30},
+            u2: {name: 'Bob', value: 20},
+            u3: {name: 'Carol', value: 10},
+        };
+
+        it("should return a page ordered by key with a next cursor", async () => {
+            const memory = new MemoryDatabase({test: {entities: users}});
+            const entities = new EntityService<TestEntity>(memory.asDatabase(), '/test/entities');
+
+            const page = await entities.getPage({limit: 2});
+
+            expect(page.items.map(item => item.key)).to.deep.eq(['u1', 'u2']);
+            expect(page.items[0].name).eq('Alice');
+            expect(page.next).to.deep.eq({startAfterKey: 'u2'});
+            expect(memory.calls.pages).to.deep.eq([{path: '/test/entities', after: undefined, limit: 3}]);
+        });
+
+        it("should continue after the cursor and end with the last page", async () => {
+            const memory = new MemoryDatabase({test: {entities: users}});
+            const entities = new EntityService<TestEntity>(memory.asDatabase(), '/test/entities');
+
+            const page = await entities.getPage({limit: 2, startAfterKey: 'u2'});
+
+            expect(page.items.map(item => item.key)).to.deep.eq(['u3']);
+            expect(page.next).to.be.null;
+        });
+
+        it("should order by child and return its value in the cursor", async () => {
+            const children = [
+                {key: 'u3', val: () => users.u3},
+                {key: 'u2', val: () => users.u2},
+                {key: 'u1', val: () => users.u1},
+            ];
+            mockSnapshot.forEach.callsFake((action: (child: unknown) => void) => children.forEach(action));
+            mockRef.startAfter = sinon.stub().returnsThis();
+            mockRef.limitToFirst = sinon.stub().returnsThis();
+
+            const page = await service.getPage({limit: 2, orderBy: 'value', startAfterKey: 'u4', startAfterValue: 5});
+
+            sinon.assert.calledWith(mockRef.orderByChild, 'value');
+            sinon.assert.calledWith(mockRef.startAfter, 5, 'u4');
+            sinon.assert.calledWith(mockRef.limitToFirst, 3);
+            expect(page.items.map(item => item.key)).to.deep.eq(['u3', 'u2']);
+            expect(page.next).to.deep.eq({startAfterKey: 'u2', startAfterValue: 20});
+        });
+
+        it("should reject invalid limits", async () => {
+            await expect(service.getPage({limit: 0})).to.be.rejectedWith(RangeError, "positive integer");
+            await expect(service.getPage({limit: 1.5})).to.be.rejectedWith(RangeError, "positive integer");
+        });
+    });
+
+    describe("iterate", () => {
+        it("should yield every entity page by page", async () => {
+            const data = Object.fromEntries(Array.from({length: 5}, (_, index) => [`u${index}`, {name: `User ${index}`}]));
+            const memory = new MemoryDatabase({test: {entities: data}});
+            const entities = new EntityService<TestEntity>(memory.asDatabase(), '/test/entities');
+
+            const names: string[] = [];
+            for await (const entity of entities.iterate(2)) {
+                names.push(entity.name);
+            }
+
+            expect(names).to.deep.eq(['User 0', 'User 1', 'User 2', 'User 3', 'User 4']);
+            expect(memory.calls.pages.map(page => page.after)).to.deep.eq([undefined, 'u1', 'u3']);
+        });
+
+        it("should yield nothing for an empty collection", async () => {
+            const entities = new EntityService<TestEntity>(new MemoryDatabase().asDatabase(), '/test/entities');
+
+            const result: TestEntity[] = [];
+            for await (const entity of entities.iterate()) {
+                result.push(entity);
+            }
+
+            expect(result).to.deep.eq([]);
+        });
+    });
+
     describe("getAllAsObject", () => {
         it("should return entities as object", async () => {
             mockSnapshot.val.returns({
@@ -223,6 +318,11 @@ describe("EntityService", () => {
     });
 
     describe("remove", () => {
+        it("should reject keys that are not valid Firebase keys", async () => {
+            await expect(service.remove('user.name')).to.be.rejectedWith(InvalidPathError, 'segment "user.name"');
+            sinon.assert.notCalled(mockDatabase.ref as sinon.SinonStub);
+        });
+
         it("should remove entity by key", async () => {
             const key = await service.remove('remove-key');
 
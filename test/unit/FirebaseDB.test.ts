@@ -5,17 +5,25 @@ import {FirebaseDB} from "../../src";
 
 describe("FirebaseDB", () => {
 
+    const createDatabase = (connected: unknown[], serverTimeOffset: number | null = 0) => {
+        const connectedRef = {
+            on: sinon.stub().callsFake((_event: string, onValue: (snapshot: unknown) => void) => {
+                connected.forEach(value => onValue({val: () => value}));
+            }),
+            off: sinon.stub(),
+        };
+        const offsetRef = {once: sinon.stub().resolves({val: () => serverTimeOffset})};
+        const pingRef = {once: sinon.stub().resolves({val: () => null})};
+        const refStub = sinon.stub();
+        refStub.withArgs('.info/connected').returns(connectedRef);
+        refStub.withArgs('.info/serverTimeOffset').returns(offsetRef);
+        refStub.withArgs('__msr_ping__').returns(pingRef);
+        return {refStub, connectedRef, pingRef, database: {ref: refStub} as unknown as database.Database};
+    };
+
     describe("checkConnection", () => {
         it("should return true when connection is successful", async () => {
-            // Mock database
-            const mockSnapshot = {val: sinon.stub().returns(true)};
-            const mockRef = {
-                once: sinon.stub().resolves(mockSnapshot)
-            };
-            const refStub = sinon.stub().returns(mockRef);
-            const mockDatabase = {
-                ref: refStub
-            } as unknown as database.Database;
+            const {refStub, connectedRef, database: mockDatabase} = createDatabase([true]);
 
             const firebaseDB = new FirebaseDB(mockDatabase);
 
@@ -23,16 +31,20 @@ describe("FirebaseDB", () => {
 
             expect(result).eq(true);
             sinon.assert.calledWith(refStub, '.info/connected');
-            sinon.assert.calledWith(mockRef.once, 'value');
+            sinon.assert.calledWith(connectedRef.on, 'value');
+            sinon.assert.calledWith(connectedRef.off, 'value', connectedRef.on.firstCall.args[1]);
         });
 
         it("should return false when connection fails", async () => {
-            // Mock database that throws error
-            const mockRef = {
-                once: sinon.stub().rejects(new Error("Connection failed"))
+            // Mock database that cancels the listener with an error
+            const connectedRef = {
+                on: sinon.stub().callsFake((_event: string, _onValue: unknown, onCancel: (error: Error) => void) => {
+                    onCancel(new Error("Connection failed"));
+                }),
+                off: sinon.stub(),
             };
             const mockDatabase = {
-                ref: sinon.stub().returns(mockRef)
+                ref: sinon.stub().returns(connectedRef)
             } as unknown as database.Database;
 
             const firebaseDB = new FirebaseDB(mockDatabase);
@@ -40,23 +52,84 @@ describe("FirebaseDB", () => {
             const result = await firebaseDB.checkConnection();
 
             expect(result).eq(false);
+            sinon.assert.calledOnce(connectedRef.off);
+        });
+
+        it("should wait for .info/connected to become true", async () => {
+            const {database: mockDatabase} = createDatabase([false, true]);
+
+            const result = await new FirebaseDB(mockDatabase).checkConnection();
+
+            expect(result).eq(true);
+        });
+
+        it("should return false when not connected within the timeout", async () => {
+            const {connectedRef, database: mockDatabase} = createDatabase([false]);
+
+            const result = await new FirebaseDB(mockDatabase, 10).checkConnection();
+
+            expect(result).eq(false);
+            sinon.assert.calledOnce(connectedRef.off);
         });
 
         it("should use .info/connected path for connection check", async () => {
-            const mockSnapshot = {val: sinon.stub().returns(true)};
-            const mockRef = {
-                once: sinon.stub().resolves(mockSnapshot)
-            };
-            const refStub = sinon.stub().returns(mockRef);
-            const mockDatabase = {
-                ref: refStub
-            } as unknown as database.Database;
+            const {refStub, database: mockDatabase} = createDatabase([true]);
 
             const firebaseDB = new FirebaseDB(mockDatabase);
 
             await firebaseDB.checkConnection();
 
-            sinon.assert.calledOnceWithExactly(refStub, '.info/connected');
+            sinon.assert.calledWithExactly(refStub.firstCall, '.info/connected');
+        });
+    });
+
+    describe("getConnectionStatus", () => {
+        it("should report latency and server time offset", async () => {
+            const {database: mockDatabase} = createDatabase([true], -42);
+
+            const status = await new FirebaseDB(mockDatabase).getConnectionStatus();
+
+            expect(status.connected).eq(true);
+            expect(status.latencyMs).to.be.a("number").gte(0);
+            expect(status.serverTimeOffset).eq(-42);
+        });
+
+        it("should measure the latency with a server read once connected", async () => {
+            const {pingRef, database: mockDatabase} = createDatabase([true]);
+            pingRef.once.callsFake(() => new Promise(resolve => setTimeout(() => resolve({val: () => null}), 20)));
+
+            const status = await new FirebaseDB(mockDatabase).getConnectionStatus();
+
+            sinon.assert.calledOnceWithExactly(pingRef.once, 'value');
+            expect(status.latencyMs).to.be.gte(15);
+        });
+
+        it("should count a rejected read as a round trip", async () => {
+            const {pingRef, database: mockDatabase} = createDatabase([true]);
+            pingRef.once.rejects(new Error("permission_denied"));
+
+            const status = await new FirebaseDB(mockDatabase).getConnectionStatus();
+
+            expect(status.connected).eq(true);
+            expect(status.latencyMs).to.be.a("number").gte(0);
+        });
+
+        it("should default a missing server time offset to zero", async () => {
+            const {database: mockDatabase} = createDatabase([true], null);
+
+            const status = await new FirebaseDB(mockDatabase).getConnectionStatus();
+
+            expect(status.serverTimeOffset).eq(0);
+        });
+
+        it("should report a disconnected status after the given timeout", async () => {
+            const {refStub, database: mockDatabase} = createDatabase([]);
+
+            const status = await new FirebaseDB(mockDatabase).getConnectionStatus(10);
+
+            expect(status).to.deep.eq({connected: false, latencyMs: null, serverTimeOffset: null});
+            sinon.assert.neverCalledWith(refStub, '.info/serverTimeOffset');
+            sinon.assert.neverCalledWith(refStub, '__msr_ping__');
         });
     });
 
@@ -1,6 +1,6 @@
 import { expect } from "chai";
 import sinon from "sinon";
-import { database } from "firebase-admin";
+import { app, database } from "firebase-admin";
 import { FirebaseHandler, FirebaseConfig, DBConnector, FirebaseDB } from "../../src";
 import { LockingConfig } from "@migration-script-runner/core";
 
@@ -89,6 +89,11 @@ describe("FirebaseHandler", () => {
             sinon.assert.calledWith(connectStub, config);
         });
 
+        it("should reject both a host database and app", async () => {
+            await expect(FirebaseHandler.getInstance(config, undefined, {database: mockDatabase, app: {} as app.App}))
+                .to.be.rejectedWith(TypeError, "either a shared database or a shared app");
+        });
+
         it("should use provided shift for lock path", async () => {
             config.shift = "production";
             config.locking = new LockingConfig();
@@ -101,6 +106,48 @@ describe("FirebaseHandler", () => {
         });
     });
 
+    describe("dispose", () => {
+        let deleteStub: sinon.SinonStub;
+        let goOfflineStub: sinon.SinonStub;
+
+        beforeEach(() => {
+            deleteStub = sinon.stub().resolves();
+            goOfflineStub = sinon.stub();
+            Object.assign(mockDatabase, {app: {delete: deleteStub}, goOffline: goOfflineStub});
+        });
+
+        it("should go offline and delete the app it created", async () => {
+            const handler = await FirebaseHandler.getInstance(config);
+
+            await handler.dispose();
+            await handler.dispose();
+
+            sinon.assert.calledOnce(goOfflineStub);
+            sinon.assert.calledOnce(deleteStub);
+        });
+
+        it("should reuse a host app and leave it running", async () => {
+            const hostApp = {name: "host"} as app.App;
+
+            const handler = await FirebaseHandler.getInstance(config, undefined, {app: hostApp});
+            await handler.dispose();
+
+            sinon.assert.calledWith(connectStub, config, hostApp);
+            sinon.assert.notCalled(goOfflineStub);
+            sinon.assert.notCalled(deleteStub);
+        });
+
+        it("should use a host database without connecting", async () => {
+            const handler = await FirebaseHandler.getInstance(config, undefined, {database: mockDatabase});
+            await handler.dispose();
+
+            expect(handler.db.database).to.equal(mockDatabase);
+            sinon.assert.notCalled(connectStub);
+            sinon.assert.notCalled(goOfflineStub);
+            sinon.assert.notCalled(deleteStub);
+        });
+    });
+
     describe("getName", () => {
         it("should return handler name", async () => {
             const handler = await FirebaseHandler.getInstance(config);
@@ -56,6 +56,22 @@ describe("FirebaseLockingService", () => {
             const service = new FirebaseLockingService(mockFirebaseDB, lockingConfig, "test");
             expect(service).to.be.instanceOf(FirebaseLockingService);
         });
+
+        it("should store the lock below the normalized shift", async () => {
+            const ref = sinon.stub().returns({
+                transaction: sinon.stub().resolves({committed: true, snapshot: {val: () => null}})
+            });
+            mockFirebaseDB = {
+                database: {ref} as unknown as database.Database,
+                checkConnection: sinon.stub(),
+                runTransaction: sinon.stub()
+            };
+
+            await new FirebaseLockingService(mockFirebaseDB, lockingConfig, "/test/").acquireLock("host-123-uuid");
+            await new FirebaseLockingService(mockFirebaseDB, lockingConfig).acquireLock("host-123-uuid");
+
+            expect(ref.getCalls().map(call => call.args[0])).to.deep.eq(["/test/migrations/_lock", "/migrations/_lock"]);
+        });
     });
 
     describe("acquireLock", () => {
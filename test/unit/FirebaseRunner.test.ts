@@ -3,8 +3,13 @@ import sinon from "sinon";
 import { MigrationScriptExecutor, Config, IMigrationExecutorDependencies } from "@migration-script-runner/core";
 import { FirebaseRunner } from "../../src/FirebaseRunner";
 import { FirebaseHandler } from "../../src/service/FirebaseHandler";
+import { FirebaseConfig } from "../../src/model/FirebaseConfig";
 import { IFirebaseDB } from "../../src/interface";
 import { database } from "firebase-admin";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { MemoryDatabase } from "../MemoryDatabase";
 
 // Test helper to create FirebaseRunner with mocked dependencies
 // Note: Constructor is private in production, but we bypass it here for unit testing
@@ -60,11 +65,11 @@ describe("FirebaseRunner", () => {
                     database: {} as database.Database,
                     checkConnection: sinon.stub().resolves(true),
                 },
-                cfg: {
+                cfg: Object.assign(new FirebaseConfig(), {
                     databaseUrl: "http://localhost:9000",
                     shift: "/test-path",
                     tableName: "schema_version",
-                },
+                }),
                 backup: {},
                 schemaVersion: {},
                 getName: sinon.stub().returns("Test Handler"),
@@ -86,11 +91,11 @@ describe("FirebaseRunner", () => {
                     database: {} as database.Database,
                     checkConnection: sinon.stub().resolves(true),
                 },
-                cfg: {
+                cfg: Object.assign(new FirebaseConfig(), {
                     databaseUrl: undefined,
                     shift: "/test",
                     tableName: "schema_version",
-                },
+                }),
                 backup: {},
                 schemaVersion: {},
                 getName: sinon.stub().returns("Test Handler"),
@@ -105,6 +110,107 @@ describe("FirebaseRunner", () => {
         });
     });
 
+    describe("getEmulatorHost", () => {
+        const createRunner = (cfg: object) => createTestRunner({
+            handler: {
+                db: {database: {} as database.Database},
+                cfg: Object.assign(new FirebaseConfig(), {emulatorHost: undefined, ...cfg}),
+                backup: {},
+                schemaVersion: {},
+                getName: sinon.stub().returns("Test Handler"),
+            } as unknown as FirebaseHandler,
+            config: getDefaultConfig(),
+        });
+
+        it("should return the emulator host", () => {
+            expect(createRunner({emulatorHost: "localhost:9000"}).getEmulatorHost()).eq("localhost:9000");
+            expect(createRunner({databaseUrl: "http://localhost:9001?ns=test"}).getEmulatorHost()).eq("localhost:9001");
+        });
+
+        it("should return undefined for a real database", () => {
+            expect(createRunner({databaseUrl: "https://test.firebaseio.com"}).getEmulatorHost()).to.be.undefined;
+        });
+    });
+
+    describe("migrateShards", () => {
+        const createConfig = () => {
+            const config = new FirebaseConfig();
+            config.databaseUrl = {eu: "https://project-eu.firebaseio.com", us: "https://project-us.firebaseio.com", asia: "https://project-asia.firebaseio.com"};
+            return config;
+        };
+        const createRunner = (migrate: sinon.SinonStub) => ({migrate, close: sinon.stub().resolves()}) as unknown as FirebaseRunner;
+
+        afterEach(() => {
+            sinon.restore();
+        });
+
+        it("should migrate every shard with its own runner", async () => {
+            const migrates = [1, 2, 3].map(() => sinon.stub().resolves({success: true, executed: []}));
+            const runners = migrates.map(createRunner);
+            const getInstance = sinon.stub(FirebaseRunner, "getInstance");
+            runners.forEach((runner, index) => getInstance.onCall(index).resolves(runner));
+
+            const summary = await FirebaseRunner.migrateShards({config: createConfig()}, 5);
+
+            expect(summary.success).eq(true);
+            expect(summary.skipped).to.deep.eq([]);
+            expect(summary.shards.map(shard => shard.name)).to.deep.eq(["eu", "us", "asia"]);
+            expect(getInstance.getCalls().map(call => call.args[0].config.databaseUrl)).to.deep.eq([
+                "https://project-eu.firebaseio.com", "https://project-us.firebaseio.com", "https://project-asia.firebaseio.com",
+            ]);
+            migrates.forEach(migrate => sinon.assert.calledOnceWithExactly(migrate, 5));
+            runners.forEach(runner => sinon.assert.calledOnce(runner.close as sinon.SinonStub));
+        });
+
+        it("should stop at the first failing shard", async () => {
+            const failing = createRunner(sinon.stub().resolves({success: false, executed: [], errors: [new Error("boom")]}));
+            const getInstance = sinon.stub(FirebaseRunner, "getInstance");
+            getInstance.onCall(0).resolves(createRunner(sinon.stub().resolves({success: true, executed: []})));
+            getInstance.onCall(1).resolves(failing);
+
+            const summary = await FirebaseRunner.migrateShards({config: createConfig()});
+
+            expect(summary.success).eq(false);
+            expect(summary.shards.map(shard => [shard.name, shard.success])).to.deep.eq([["eu", true], ["us", false]]);
+            expect(summary.skipped).to.deep.eq(["asia"]);
+            sinon.assert.calledTwice(getInstance);
+            sinon.assert.calledOnce(failing.close as sinon.SinonStub);
+        });
+
+        it("should report shards that cannot be connected", async () => {
+            sinon.stub(FirebaseRunner, "getInstance").rejects(new Error("Invalid credentials"));
+
+            const summary = await FirebaseRunner.migrateShards({config: createConfig()});
+
+            expect(summary.shards).to.deep.eq([{name: "eu", databaseUrl: "https://project-eu.firebaseio.com", success: false, error: "Invalid credentials"}]);
+            expect(summary.skipped).to.deep.eq(["us", "asia"]);
+        });
+
+        it("should reject a shared database", async () => {
+            await expect(FirebaseRunner.migrateShards({config: createConfig(), database: {} as database.Database}))
+                .to.be.rejectedWith(TypeError, "shared database or app");
+        });
+    });
+
+    describe("close", () => {
+        it("should dispose the handler", async () => {
+            const dispose = sinon.stub().resolves();
+            const mockHandler = {
+                db: {database: {} as database.Database},
+                cfg: {tableName: "schema_version"},
+                backup: {},
+                schemaVersion: {},
+                dispose,
+                getName: sinon.stub().returns("Test Handler"),
+            } as unknown as FirebaseHandler;
+
+            const runner = createTestRunner({ handler: mockHandler, config: getDefaultConfig() });
+            await runner.close();
+
+            sinon.assert.calledOnce(dispose);
+        });
+    });
+
     describe("getDatabase", () => {
         it("should return Firebase database instance", () => {
             const mockDatabase = {
@@ -178,12 +284,11 @@ describe("FirebaseRunner", () => {
                     database: mockDatabase,
                     checkConnection: sinon.stub().resolves(true),
                 },
-                cfg: {
+                cfg: Object.assign(new FirebaseConfig(), {
                     databaseUrl: "http://localhost:9000",
                     shift: "/test",
                     tableName: "schema_version",
-                    buildPath: sinon.stub().callsFake((path: string) => `/test/${path}`),
-                },
+                }),
                 backup: {},
                 schemaVersion: {},
                 getName: sinon.stub().returns("Test Handler"),
@@ -218,12 +323,11 @@ describe("FirebaseRunner", () => {
                     database: mockDatabase,
                     checkConnection: sinon.stub().resolves(true),
                 },
-                cfg: {
+                cfg: Object.assign(new FirebaseConfig(), {
                     databaseUrl: "http://localhost:9000",
                     shift: "/test",
                     tableName: "schema_version",
-                    buildPath: sinon.stub().callsFake((path: string) => `/test/${path}`),
-                },
+                }),
                 backup: {},
                 schemaVersion: {},
                 getName: sinon.stub().returns("Test Handler"),
@@ -257,12 +361,11 @@ describe("FirebaseRunner", () => {
                     database: mockDatabase,
                     checkConnection: sinon.stub().resolves(true),
                 },
-                cfg: {
+                cfg: Object.assign(new FirebaseConfig(), {
                     databaseUrl: "http://localhost:9000",
                     shift: "/test",
                     tableName: "schema_version",
-                    buildPath: sinon.stub().callsFake((path: string) => `/test/${path}`),
-                },
+                }),
                 backup: {},
                 schemaVersion: {},
                 getName: sinon.stub().returns("Test Handler"),
@@ -295,12 +398,11 @@ describe("FirebaseRunner", () => {
                     database: mockDatabase,
                     checkConnection: sinon.stub().resolves(true),
                 },
-                cfg: {
+                cfg: Object.assign(new FirebaseConfig(), {
                     databaseUrl: "http://localhost:9000",
                     shift: undefined,
                     tableName: "schema_version",
-                    buildPath: sinon.stub().callsFake((path: string) => `/${path}`),
-                },
+                }),
                 backup: {},
                 schemaVersion: {},
                 getName: sinon.stub().returns("Test Handler"),
@@ -311,6 +413,35 @@ describe("FirebaseRunner", () => {
 
             sinon.assert.calledWith(refStub, '/');
         });
+
+        it("should list the nodes of the normalized shift root", async () => {
+            const mockSnapshot = {
+                exists: sinon.stub().returns(false),
+                val: sinon.stub().returns(null),
+            };
+
+            const refStub = sinon.stub().returns({ once: sinon.stub().resolves(mockSnapshot) });
+
+            const mockHandler = {
+                db: {
+                    database: { ref: refStub } as unknown as database.Database,
+                    checkConnection: sinon.stub().resolves(true),
+                },
+                cfg: Object.assign(new FirebaseConfig(), {
+                    databaseUrl: "http://localhost:9000",
+                    shift: "staging/",
+                    tableName: "schema_version",
+                }),
+                backup: {},
+                schemaVersion: {},
+                getName: sinon.stub().returns("Test Handler"),
+            } as unknown as FirebaseHandler;
+
+            const runner = createTestRunner({ handler: mockHandler, config: getDefaultConfig() });
+            await runner.listNodes();
+
+            sinon.assert.calledWith(refStub, '/staging');
+        });
     });
 
     describe("backupNodes", () => {
@@ -418,4 +549,163 @@ describe("FirebaseRunner", () => {
             expect(backup).to.deep.equal({});
         });
     });
+
+    describe("diffBackup", () => {
+        it("should delegate to the backup service", async () => {
+            const diff = {added: ["/test/a"], removed: [], changed: [], counts: {added: 1, removed: 0, changed: 0}};
+            const diffStub = sinon.stub().resolves(diff);
+            const mockHandler = {
+                db: {database: {} as database.Database},
+                cfg: {shift: "/test", tableName: "schema_version"},
+                backup: {diff: diffStub},
+                schemaVersion: {},
+                getName: sinon.stub().returns("Test Handler"),
+            } as unknown as FirebaseHandler;
+
+            const runner = createTestRunner({ handler: mockHandler, config: getDefaultConfig() });
+
+            expect(await runner.diffBackup("backup-1")).to.deep.equal(diff);
+            sinon.assert.calledOnceWithExactly(diffStub, "backup-1", {});
+        });
+    });
+
+    describe("restoreBackup", () => {
+        it("should delegate to the backup service", async () => {
+            const restoreStub = sinon.stub().resolves();
+            const mockHandler = {
+                db: {database: {} as database.Database},
+                cfg: {shift: "/test", tableName: "schema_version"},
+                backup: {restore: restoreStub},
+                schemaVersion: {},
+                getName: sinon.stub().returns("Test Handler"),
+            } as unknown as FirebaseHandler;
+
+            const runner = createTestRunner({ handler: mockHandler, config: getDefaultConfig() });
+            await runner.restoreBackup("backup-1", {targetShift: "staging", force: true});
+
+            sinon.assert.calledOnceWithExactly(restoreStub, "backup-1", {targetShift: "staging", force: true});
+        });
+    });
+
+    describe("pruneBackups", () => {
+        it("should only plan the prune in dry-run mode", async () => {
+            const plan = {keep: [], prune: []};
+            const planStub = sinon.stub().resolves(plan);
+            const pruneStub = sinon.stub().resolves(plan);
+            const mockHandler = {
+                db: {database: {} as database.Database},
+                cfg: {shift: "/test", tableName: "schema_version"},
+                backup: {planPrune: planStub, pruneBackups: pruneStub},
+                schemaVersion: {},
+                getName: sinon.stub().returns("Test Handler"),
+            } as unknown as FirebaseHandler;
+
+            const runner = createTestRunner({ handler: mockHandler, config: getDefaultConfig() });
+
+            expect(await runner.pruneBackups({dryRun: true})).to.equal(plan);
+            sinon.assert.calledOnce(planStub);
+            sinon.assert.notCalled(pruneStub);
+
+            await runner.pruneBackups();
+            sinon.assert.calledOnce(pruneStub);
+        });
+    });
+
+    describe("verifyBackup", () => {
+        it("should delegate to the backup service", async () => {
+            const result = {id: "backup-1", valid: true, checksum: true, nodes: 1, errors: []};
+            const verifyStub = sinon.stub().resolves(result);
+            const mockHandler = {
+                db: {database: {} as database.Database},
+                cfg: {shift: "/test", tableName: "schema_version"},
+                backup: {verify: verifyStub},
+                schemaVersion: {},
+                getName: sinon.stub().returns("Test Handler"),
+            } as unknown as FirebaseHandler;
+
+            const runner = createTestRunner({ handler: mockHandler, config: getDefaultConfig() });
+
+            expect(await runner.verifyBackup("backup-1", {live: true})).to.equal(result);
+            sinon.assert.calledOnceWithExactly(verifyStub, "backup-1", {live: true});
+        });
+    });
+
+    describe("export/import", () => {
+        let directory: string;
+        let db: MemoryDatabase;
+        let runner: FirebaseRunner;
+
+        beforeEach(() => {
+            directory = mkdtempSync(join(tmpdir(), "msr-export-"));
+            db = new MemoryDatabase({test: {users: {u1: {name: "A", tags: {a: true}}}, posts: {p1: 1}}});
+            const mockHandler = {
+                db: {database: db.asDatabase()},
+                cfg: {
+                    shift: "/test",
+                    tableName: "schema_version",
+                    buildPath: (path: string) => `/test/${path}`,
+                },
+                backup: {},
+                schemaVersion: {},
+                getName: sinon.stub().returns("Test Handler"),
+            } as unknown as FirebaseHandler;
+            runner = createTestRunner({ handler: mockHandler, config: getDefaultConfig() });
+        });
+
+        afterEach(() => {
+            rmSync(directory, {recursive: true, force: true});
+        });
+
+        it("should export a node in console JSON format", async () => {
+            const file = join(directory, "users.json");
+
+            const summary = await runner.exportData("users", file);
+
+            expect(JSON.parse(readFileSync(file, "utf-8"))).to.deep.equal({u1: {name: "A", tags: {a: true}}});
+            expect(summary).to.deep.equal({path: "/test/users", bytes: readFileSync(file).length, keys: 4});
+        });
+
+        it("should merge top-level keys by default", async () => {
+            const file = join(directory, "users.json");
+            writeFileSync(file, JSON.stringify({u2: {name: "B"}}));
+
+            const summary = await runner.importData("users", file);
+
+            expect(db.get("test/users")).to.deep.equal({u1: {name: "A", tags: {a: true}}, u2: {name: "B"}});
+            expect(summary).to.deep.include({path: "/test/users", keys: 2});
+        });
+
+        it("should replace the node in replace mode", async () => {
+            const file = join(directory, "users.json");
+            writeFileSync(file, JSON.stringify({u2: {name: "B"}}));
+
+            await runner.importData("users", file, {mode: "replace"});
+
+            expect(db.get("test/users")).to.deep.equal({u2: {name: "B"}});
+            expect(db.get("test/posts")).to.deep.equal({p1: 1});
+        });
+
+        it("should round-trip an exported file", async () => {
+            const file = join(directory, "users.json");
+            await runner.exportData("users", file);
+            await db.ref("test/users").remove();
+
+            await runner.importData("users", file, {mode: "replace"});
+
+            expect(db.get("test/users")).to.deep.equal({u1: {name: "A", tags: {a: true}}});
+        });
+
+        it("should reject merging a value that is not an object", async () => {
+            const file = join(directory, "value.json");
+            writeFileSync(file, "42");
+
+            await expect(runner.importData("posts", file)).to.be.rejectedWith(TypeError, "Merge import requires a JSON object");
+            expect(db.get("test/posts")).to.deep.equal({p1: 1});
+        });
+
+        it("should reject unknown import modes", async () => {
+            await expect(runner.importData("users", join(directory, "users.json"), {mode: "upsert" as "merge"}))
+                .to.be.rejectedWith(TypeError, "Unknown import mode");
+        });
+    });
 });
@@ -1,6 +1,13 @@
 import { expect } from "chai";
 import { readFileSync } from "node:fs";
 import { join } from "node:path";
+import { Config } from "@migration-script-runner/core";
+import sinon from "sinon";
+import { applyFlags, parseMilliseconds, parseVersion, resolveConfig, toFirebaseConfig } from "../../src/cli";
+import { InvalidPathError } from "../../src/error";
+import { FirebaseBackupConfig } from "../../src/model/FirebaseBackupConfig";
+import { FirebaseConfig } from "../../src/model/FirebaseConfig";
+import { DBConnector } from "../../src/service/DBConnector";
 
 describe("CLI", () => {
     describe("cli.ts file", () => {
@@ -70,6 +77,30 @@ describe("CLI", () => {
             expect(content).to.include("Show Firebase connection information");
         });
 
+        it("should print an emulator banner in firebase:info", () => {
+            const cliPath = join(__dirname, "../../src/cli.ts");
+            const content = readFileSync(cliPath, "utf-8");
+            expect(content).to.include("runner.getEmulatorHost()");
+            expect(content).to.include("EMULATOR MODE");
+        });
+
+        it("should define firebase:config-check command with JSON output", () => {
+            const cliPath = join(__dirname, "../../src/cli.ts");
+            const content = readFileSync(cliPath, "utf-8");
+            expect(content).to.include(".command('firebase:config-check')");
+            expect(content).to.include("resolveConfig(loadConfig(flags), flags).validate()");
+            expect(content).to.include("JSON.stringify({ valid: errors === 0, issues }, null, 2)");
+        });
+
+        it("should point sharded configurations to firebase:migrate-shards", () => {
+            const cliPath = join(__dirname, "../../src/cli.ts");
+            const content = readFileSync(cliPath, "utf-8");
+            expect(content).to.include("if (appConfig.isSharded())");
+            expect(content).to.include(".command('firebase:migrate-shards')");
+            expect(content).to.include("FirebaseRunner.migrateShards({ config }");
+            expect(content).to.include("parseVersion(targetVersion)");
+        });
+
         it("should define firebase:test-connection command", () => {
             const cliPath = join(__dirname, "../../src/cli.ts");
             const content = readFileSync(cliPath, "utf-8");
@@ -77,6 +108,15 @@ describe("CLI", () => {
             expect(content).to.include("Test Firebase database connection");
         });
 
+        it("should report connection status in firebase:test-connection", () => {
+            const cliPath = join(__dirname, "../../src/cli.ts");
+            const content = readFileSync(cliPath, "utf-8");
+            expect(content).to.include("firebaseDb.getConnectionStatus()");
+            expect(content).to.include("firebaseDb.checkConnection()");
+            expect(content).to.include("status.latencyMs");
+            expect(content).to.include("status.serverTimeOffset");
+        });
+
         it("should define firebase:nodes command", () => {
             const cliPath = join(__dirname, "../../src/cli.ts");
             const content = readFileSync(cliPath, "utf-8");
@@ -90,6 +130,55 @@ describe("CLI", () => {
             expect(content).to.include(".command('firebase:backup-nodes')");
             expect(content).to.include("Backup specific Firebase nodes");
         });
+
+        it("should define firebase:restore command with dry-run", () => {
+            const cliPath = join(__dirname, "../../src/cli.ts");
+            const content = readFileSync(cliPath, "utf-8");
+            expect(content).to.include(".command('firebase:restore')");
+            expect(content).to.include(".option('--dry-run'");
+            expect(content).to.include(".option('--json'");
+            expect(content).to.include(".option('--target-shift <shift>'");
+            expect(content).to.include(".option('--force'");
+            expect(content).to.include("runner.diffBackup(backup, { targetShift })");
+        });
+
+        it("should define firebase:export and firebase:import commands", () => {
+            const cliPath = join(__dirname, "../../src/cli.ts");
+            const content = readFileSync(cliPath, "utf-8");
+            expect(content).to.include(".command('firebase:export')");
+            expect(content).to.include(".requiredOption('--out <file>'");
+            expect(content).to.include(".command('firebase:import')");
+            expect(content).to.include(".option('--mode <mode>'");
+            expect(content).to.include("runner.importData(path, file, { mode: options.mode })");
+        });
+
+        it("should define firebase:backup-verify command", () => {
+            const cliPath = join(__dirname, "../../src/cli.ts");
+            const content = readFileSync(cliPath, "utf-8");
+            expect(content).to.include(".command('firebase:backup-verify')");
+            expect(content).to.include(".option('--live'");
+            expect(content).to.include("runner.verifyBackup(backup, { live: options.live })");
+        });
+
+        it("should define firebase:backup-prune command with retention options", () => {
+            const cliPath = join(__dirname, "../../src/cli.ts");
+            const content = readFileSync(cliPath, "utf-8");
+            expect(content).to.include(".command('firebase:backup-prune')");
+            expect(content).to.include(".option('--backup-keep-last <count>'");
+            expect(content).to.include(".option('--backup-keep-days <days>'");
+            expect(content).to.include(".option('--backup-keep-per-version'");
+            expect(content).to.include("runner.pruneBackups({ dryRun: true })");
+        });
+
+        it("should close the runner before exiting from every command", () => {
+            const cliPath = join(__dirname, "../../src/cli.ts");
+            const content = readFileSync(cliPath, "utf-8");
+            const created = content.split("runner = await createExecutor();").length - 1;
+            const closed = content.split("await exit(runner, code);").length - 1;
+            expect(created).to.be.greaterThan(0);
+            expect(closed).to.equal(created);
+            expect(content).to.include("await runner?.close();");
+        });
     });
 
     describe("Lock management commands (provided by MSR Core)", () => {
@@ -138,6 +227,72 @@ describe("CLI", () => {
             expect(content).to.include("Path to service account key file");
         });
 
+        it("should register --credentials-json flag", () => {
+            const cliPath = join(__dirname, "../../src/cli.ts");
+            const content = readFileSync(cliPath, "utf-8");
+            expect(content).to.include("--credentials-json <json>");
+            expect(content).to.include("config.credentialsJson = flags.credentialsJson");
+        });
+
+        it("should register --credentials-mode flag", () => {
+            const cliPath = join(__dirname, "../../src/cli.ts");
+            const content = readFileSync(cliPath, "utf-8");
+            expect(content).to.include("--credentials-mode <mode>");
+            expect(content).to.include("config.credentialsMode = mode");
+        });
+
+        it("should register --connection-timeout flag", () => {
+            const cliPath = join(__dirname, "../../src/cli.ts");
+            const content = readFileSync(cliPath, "utf-8");
+            expect(content).to.include("--connection-timeout <ms>");
+            expect(content).to.include("config.connectionTimeout = parseMilliseconds(flags.connectionTimeout, '--connection-timeout')");
+        });
+
+        it("should register --shift flag", () => {
+            const cliPath = join(__dirname, "../../src/cli.ts");
+            const content = readFileSync(cliPath, "utf-8");
+            expect(content).to.include("--shift <path>");
+            expect(content).to.include("MSR_FIREBASE_SHIFT");
+            expect(content).to.include("FirebaseConfig.normalizeRoot(flags.shift)");
+            expect(content).to.include("config.shift = flags.shift");
+        });
+
+        it("should register --table-name flag", () => {
+            const cliPath = join(__dirname, "../../src/cli.ts");
+            const content = readFileSync(cliPath, "utf-8");
+            expect(content).to.include("--table-name <name>");
+            expect(content).to.include("FirebaseConfig.normalizeRoot(flags.tableName)");
+            expect(content).to.include("config.tableName = flags.tableName");
+        });
+
+        it("should register --lock-timeout flag", () => {
+            const cliPath = join(__dirname, "../../src/cli.ts");
+            const content = readFileSync(cliPath, "utf-8");
+            expect(content).to.include("--lock-timeout <ms>");
+            expect(content).to.include("config.locking = { ...config.locking, timeout: parseMilliseconds(flags.lockTimeout, '--lock-timeout') }");
+        });
+
+        it("should reject durations that are not milliseconds", () => {
+            const cliPath = join(__dirname, "../../src/cli.ts");
+            const content = readFileSync(cliPath, "utf-8");
+            expect(content).to.include("const parseMilliseconds = (value: unknown, flag: string): number =>");
+            expect(content).to.include("must be a non-negative number of milliseconds");
+        });
+
+        it("should register --auth-override flag", () => {
+            const cliPath = join(__dirname, "../../src/cli.ts");
+            const content = readFileSync(cliPath, "utf-8");
+            expect(content).to.include("--auth-override <json>");
+            expect(content).to.include("config.databaseAuthVariableOverride = DBConnector.parseAuthOverride(flags.authOverride)");
+        });
+
+        it("should register --emulator flag", () => {
+            const cliPath = join(__dirname, "../../src/cli.ts");
+            const content = readFileSync(cliPath, "utf-8");
+            expect(content).to.include("--emulator <host:port>");
+            expect(content).to.include("config.emulatorHost = flags.emulator");
+        });
+
         it("should register --backup-mode flag", () => {
             const cliPath = join(__dirname, "../../src/cli.ts");
             const content = readFileSync(cliPath, "utf-8");
@@ -145,6 +300,35 @@ describe("CLI", () => {
             expect(content).to.include("full, create_only, restore_only, manual");
         });
 
+        it("should register --backup-nodes flag", () => {
+            const cliPath = join(__dirname, "../../src/cli.ts");
+            const content = readFileSync(cliPath, "utf-8");
+            expect(content).to.include("--backup-nodes <nodes>");
+            expect(content).to.include("--backup-exclude-nodes <nodes>");
+        });
+
+        it("should map backup node flags to config.backup", () => {
+            const cliPath = join(__dirname, "../../src/cli.ts");
+            const content = readFileSync(cliPath, "utf-8");
+            expect(content).to.include("config.backup.nodes = parseList(flags.backupNodes)");
+            expect(content).to.include("config.backup.excludeNodes = parseList(flags.backupExcludeNodes)");
+        });
+
+        it("should register --profile flag and apply the profile before other flags", () => {
+            const cliPath = join(__dirname, "../../src/cli.ts");
+            const content = readFileSync(cliPath, "utf-8");
+            expect(content).to.include("'--profile <name>'");
+            expect(content).to.include("FirebaseConfig.applyProfile(config, flags.profile, 'cli')");
+            expect(content.indexOf("FirebaseConfig.applyProfile(config")).to.be.lessThan(content.indexOf("config.databaseUrl = flags.databaseUrl"));
+        });
+
+        it("should show the resolved profile in firebase:info", () => {
+            const cliPath = join(__dirname, "../../src/cli.ts");
+            const content = readFileSync(cliPath, "utf-8");
+            expect(content).to.include("runner.getHandler().cfg.resolvedProfile");
+            expect(content).to.include("Profile:");
+        });
+
         it("should define extendFlags callback", () => {
             const cliPath = join(__dirname, "../../src/cli.ts");
             const content = readFileSync(cliPath, "utf-8");
@@ -191,4 +375,186 @@ describe("CLI", () => {
             expect(content).to.include("if (flags.backupMode && typeof flags.backupMode === 'string')");
         });
     });
+
+    describe("toFirebaseConfig", () => {
+        const originalKey = process.env.MSR_FIREBASE_BACKUP_KEY;
+        const originalKeyFile = process.env.MSR_FIREBASE_BACKUP_KEY_FILE;
+
+        afterEach(() => {
+            if (originalKey) {
+                process.env.MSR_FIREBASE_BACKUP_KEY = originalKey;
+            } else {
+                delete process.env.MSR_FIREBASE_BACKUP_KEY;
+            }
+            if (originalKeyFile) {
+                process.env.MSR_FIREBASE_BACKUP_KEY_FILE = originalKeyFile;
+            } else {
+                delete process.env.MSR_FIREBASE_BACKUP_KEY_FILE;
+            }
+        });
+
+        it("should keep the backup encryption key from the environment", () => {
+            process.env.MSR_FIREBASE_BACKUP_KEY = "a".repeat(64);
+            process.env.MSR_FIREBASE_BACKUP_KEY_FILE = "/run/secrets/backup-key";
+            const loaded = new Config();
+            loaded.backup.folder = "./custom-backups";
+
+            const config = toFirebaseConfig(loaded);
+
+            expect(config.backup).to.be.instanceOf(FirebaseBackupConfig);
+            expect(config.backup.encryptionKey).eq("a".repeat(64));
+            expect(config.backup.encryptionKeyFile).eq("/run/secrets/backup-key");
+            expect(config.backup.folder).eq("./custom-backups");
+            expect(config.backup.pageSize).eq(1000);
+        });
+
+        it("should keep the encryption key through flags and profiles", () => {
+            process.env.MSR_FIREBASE_BACKUP_KEY = "b".repeat(64);
+
+            const config = resolveConfig(new Config(), {backupNodes: "users,posts"});
+
+            expect(config.backup.encryptionKey).eq("b".repeat(64));
+            expect(config.backup.nodes).to.deep.eq(["users", "posts"]);
+        });
+    });
+
+    describe("resolveConfig", () => {
+        afterEach(() => {
+            sinon.restore();
+        });
+
+        it("should merge the loaded configuration, profile and flags into a FirebaseConfig", () => {
+            const loaded = Object.assign(new Config(), {
+                databaseUrl: "https://project-default-rtdb.firebaseio.com",
+                profile: "staging",
+                profiles: {staging: {shift: "staging", connectionTimeout: 5000}}
+            });
+
+            const config = resolveConfig(loaded, {tableName: "migrations"});
+
+            expect(config).to.be.instanceOf(FirebaseConfig);
+            expect(config.databaseUrl).eq("https://project-default-rtdb.firebaseio.com");
+            expect(config.shift).eq("staging");
+            expect(config.connectionTimeout).eq(5000);
+            expect(config.tableName).eq("migrations");
+            expect(config.resolvedProfile?.name).eq("staging");
+        });
+
+        it("should not connect to Firebase", () => {
+            const connect = sinon.stub(DBConnector, "connect");
+            const loaded = Object.assign(new Config(), {databaseUrl: "not-a-url"});
+
+            const issues = resolveConfig(loaded, {}).validate();
+
+            expect(issues.map(issue => issue.field)).to.include("databaseUrl");
+            sinon.assert.notCalled(connect);
+        });
+
+        it("should reject an unknown profile", () => {
+            expect(() => resolveConfig(new Config(), {profile: "qa"})).to.throw(RangeError, 'Unknown profile "qa"');
+        });
+    });
+
+    describe("parseMilliseconds", () => {
+        it("should parse a non-negative integer", () => {
+            expect(parseMilliseconds("1500", "--lock-timeout")).eq(1500);
+            expect(parseMilliseconds(0, "--lock-timeout")).eq(0);
+        });
+
+        ["abc", "-1", "1.5", ""].forEach(value => {
+            it(`should reject ${JSON.stringify(value)}`, () => {
+                expect(() => parseMilliseconds(value, "--lock-timeout")).to.throw(TypeError, "--lock-timeout must be a non-negative number of milliseconds");
+            });
+        });
+    });
+
+    describe("parseVersion", () => {
+        it("should parse a migration timestamp", () => {
+            expect(parseVersion("202501010001")).eq(202501010001);
+        });
+
+        ["latest", "", "12abc", "-1", "0", "1.5", "1e3"].forEach(value => {
+            it(`should reject ${JSON.stringify(value)}`, () => {
+                expect(() => parseVersion(value)).to.throw(TypeError, `Invalid target version "${value}"`);
+            });
+        });
+    });
+
+    describe("applyFlags", () => {
+        it("should store --shift like a programmatic or env shift", () => {
+            const config = new FirebaseConfig();
+
+            applyFlags(config, {shift: "production"});
+
+            expect(config.shift).eq("production");
+            expect(config.getRoot()).eq("/production");
+        });
+
+        it("should reject an invalid --shift", () => {
+            const config = new FirebaseConfig();
+            config.shift = "staging";
+
+            expect(() => applyFlags(config, {shift: "prod.eu"})).to.throw(InvalidPathError, 'segment "prod.eu"');
+            expect(config.shift).eq("staging");
+        });
+
+        it("should reject a --shift ending in a meta key", () => {
+            expect(() => applyFlags(new FirebaseConfig(), {shift: "staging/.value"})).to.throw(InvalidPathError, 'segment ".value"');
+        });
+
+        it("should reject an invalid --table-name", () => {
+            const config = new FirebaseConfig();
+
+            expect(() => applyFlags(config, {tableName: "schema#version"})).to.throw(InvalidPathError, 'segment "schema#version"');
+            expect(config.tableName).eq("schema_version");
+        });
+
+        it("should map --lock-timeout to locking.timeout", () => {
+            const config = new FirebaseConfig();
+
+            applyFlags(config, {lockTimeout: "30000"});
+
+            expect(config.locking.timeout).eq(30000);
+        });
+
+        it("should not attribute settings overridden by flags to the profile", () => {
+            const config = new FirebaseConfig();
+            config.profiles = {
+                staging: {
+                    databaseUrl: "https://project-staging-default-rtdb.firebaseio.com",
+                    shift: "staging",
+                    tableName: "migrations",
+                    emulatorHost: "localhost:9000",
+                    locking: {timeout: 60000}
+                }
+            };
+
+            applyFlags(config, {profile: "staging", shift: "hotfix", emulator: "localhost:9001", lockTimeout: "30000"});
+
+            expect(config.shift).eq("hotfix");
+            expect(config.emulatorHost).eq("localhost:9001");
+            expect(config.resolvedProfile?.name).eq("staging");
+            expect(config.resolvedProfile?.source).eq("cli");
+            expect(config.resolvedProfile?.settings).to.have.members(["databaseUrl", "tableName", "locking"]);
+        });
+
+        it("should attribute every setting to the profile without overriding flags", () => {
+            const config = new FirebaseConfig();
+            config.profiles = {staging: {databaseUrl: "https://project-staging-default-rtdb.firebaseio.com", shift: "staging"}};
+
+            applyFlags(config, {profile: "staging", tableName: "migrations"});
+
+            expect(config.resolvedProfile?.settings).to.have.members(["databaseUrl", "shift"]);
+        });
+
+        ["soon", "-5"].forEach(lockTimeout => {
+            it(`should reject --lock-timeout ${lockTimeout}`, () => {
+                const config = new FirebaseConfig();
+                const timeout = config.locking.timeout;
+
+                expect(() => applyFlags(config, {lockTimeout})).to.throw(TypeError, "--lock-timeout must be a non-negative number of milliseconds");
+                expect(config.locking.timeout).eq(timeout);
+            });
+        });
+    });
 });